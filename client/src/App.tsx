@@ -7,6 +7,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import CreateEvent from "@/pages/create-event";
 import EventView from "@/pages/event-view";
+import EditEvent from "@/pages/edit-event";
 import Participate from "@/pages/participate";
 import NotFound from "@/pages/not-found";
 
@@ -15,8 +16,11 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/create" component={CreateEvent} />
+      <Route path="/event/:shareId/edit">
+        {(params) => <EditEvent shareId={params.shareId} />}
+      </Route>
       <Route path="/event/:shareId">
-        {(params) => <EventView shareId={params.shareId} />}
+        {(params) => <EventView key={params.shareId} shareId={params.shareId} />}
       </Route>
       <Route path="/participate/:shareId">
         {(params) => <Participate shareId={params.shareId} />}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { CalendarPlus } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders } from "@/lib/event-tokens";
+import { downloadFile } from "@/lib/download";
+
+interface AddToCalendarButtonProps {
+  shareId: string;
+  timeOptionId?: number; // organizer-only; defaults to the confirmed time
+  label?: string;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+}
+
+// Downloads an .ics file that calendar apps open as a new entry
+export function AddToCalendarButton({ shareId, timeOptionId, label = "Add to Calendar", variant = "outline", size }: AddToCalendarButtonProps) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const download = async () => {
+    setIsDownloading(true);
+    try {
+      const query = timeOptionId !== undefined ? `?timeOptionId=${timeOptionId}` : "";
+      await downloadFile(`/api/events/${shareId}/calendar.ics${query}`, timeOptionId !== undefined ? adminHeaders(shareId) : {});
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the calendar file. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant={variant} size={size} onClick={download} disabled={isDownloading}>
+      <CalendarPlus className="mr-2 h-4 w-4" />
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from "react";
+import { Check, MessageCircleQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDate, formatTime } from "@/lib/utils";
+import { buildGridLayout } from "@shared/grid";
+
+export type GridStatus = "available" | "maybe" | "unavailable";
+export type PaintStatus = Exclude<GridStatus, "unavailable">;
+
+// A slot placed at the date and time it should be drawn at
+export interface GridCell {
+  id: number;
+  date: string;
+  startTime: string;
+}
+
+interface AvailabilityGridProps {
+  cells: GridCell[];
+  value: Record<number, string>;
+  onChange: (value: Record<number, string>) => void;
+  paintStatus: PaintStatus;
+}
+
+const cellColors: Record<string, string> = {
+  available: "bg-success",
+  maybe: "bg-yellow-400",
+};
+
+// Click-drag painting of slots. Starting a drag on a cell that already has the
+// paint status erases instead, so the same gesture toggles a block on and off.
+export function AvailabilityGrid({ cells, value, onChange, paintStatus }: AvailabilityGridProps) {
+  const layout = buildGridLayout(cells);
+  const dragRef = useRef<{ status: GridStatus; painted: Record<number, string> } | null>(null);
+
+  // End the drag even when the pointer is released outside the grid
+  useEffect(() => {
+    const endDrag = () => {
+      dragRef.current = null;
+    };
+    window.addEventListener("pointerup", endDrag);
+    window.addEventListener("pointercancel", endDrag);
+    return () => {
+      window.removeEventListener("pointerup", endDrag);
+      window.removeEventListener("pointercancel", endDrag);
+    };
+  }, []);
+
+  const paint = (cellId: number) => {
+    const drag = dragRef.current;
+    if (!drag || drag.painted[cellId] === drag.status) return;
+    drag.painted = { ...drag.painted, [cellId]: drag.status };
+    onChange(drag.painted);
+  };
+
+  const startDrag = (event: React.PointerEvent, cellId: number) => {
+    event.preventDefault();
+    // Let touch drags move across cells instead of sticking to the first one
+    (event.target as HTMLElement).releasePointerCapture?.(event.pointerId);
+    dragRef.current = {
+      status: value[cellId] === paintStatus ? "unavailable" : paintStatus,
+      painted: value,
+    };
+    paint(cellId);
+  };
+
+  const continueDrag = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const target = document.elementFromPoint(event.clientX, event.clientY);
+    const cellId = target instanceof HTMLElement ? target.dataset.cellId : undefined;
+    if (cellId) {
+      paint(parseInt(cellId, 10));
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="inline-grid select-none touch-none gap-px"
+        style={{ gridTemplateColumns: `auto repeat(${layout.dates.length}, minmax(3rem, 1fr))` }}
+        onPointerMove={continueDrag}
+      >
+        <div />
+        {layout.dates.map(date => (
+          <div key={date} className="text-center text-xs font-medium text-gray-700 pb-1">
+            <div>{formatDate(date).dayName}</div>
+            <div>{formatDate(date).month} {formatDate(date).dayNumber}</div>
+          </div>
+        ))}
+        {layout.times.map(time => (
+          <GridRow key={time} time={time}>
+            {layout.dates.map(date => {
+              const cell = layout.cellAt(date, time);
+              if (!cell) {
+                return <div key={date} className="h-5 bg-gray-100" />;
+              }
+              return (
+                <div
+                  key={date}
+                  data-cell-id={cell.id}
+                  onPointerDown={(event) => startDrag(event, cell.id)}
+                  className={`h-5 cursor-pointer border border-neutral-100 ${cellColors[value[cell.id]] ?? "bg-white hover:bg-gray-50"}`}
+                  title={`${formatDate(date).dayName} ${formatTime(time)}`}
+                />
+              );
+            })}
+          </GridRow>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Chooses what a drag paints: available or if-need-be
+export function PaintStatusPicker({ value, onChange }: { value: PaintStatus; onChange: (value: PaintStatus) => void }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <span>Paint as</span>
+      <Button
+        type="button"
+        size="sm"
+        variant={value === "available" ? "default" : "outline"}
+        className={value === "available" ? "bg-success hover:bg-green-600 text-white" : ""}
+        onClick={() => onChange("available")}
+      >
+        <Check className="mr-1 h-4 w-4" />
+        Available
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={value === "maybe" ? "default" : "outline"}
+        className={value === "maybe" ? "bg-yellow-400 hover:bg-yellow-500 text-yellow-900" : ""}
+        onClick={() => onChange("maybe")}
+      >
+        <MessageCircleQuestion className="mr-1 h-4 w-4" />
+        If need be
+      </Button>
+      <span className="text-xs text-gray-500">Drag across cells to fill them in; start a drag on a filled cell to clear.</span>
+    </div>
+  );
+}
+
+// Time label followed by one row of cells; only full hours are labelled to keep the grid compact
+export function GridRow({ time, children }: { time: string; children: React.ReactNode }) {
+  return (
+    <>
+      <div className="pr-2 text-right text-xs text-gray-500 leading-5 whitespace-nowrap">
+        {time.endsWith(":00") ? formatTime(time) : ""}
+      </div>
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+import { formatDate, formatTime } from "@/lib/utils";
+import { buildGridLayout } from "@shared/grid";
+import { GridRow, type GridCell } from "@/components/availability-grid";
+
+// A slot with how many people can make it, placed at the date and time it should be drawn at
+export interface HeatmapCell extends GridCell {
+  available: number;
+  maybe: number;
+}
+
+interface AvailabilityHeatmapProps {
+  cells: HeatmapCell[];
+  participantCount: number;
+  selectedId?: number;
+  highlightedIds?: number[];
+  onSelect?: (cellId: number) => void;
+}
+
+// If-need-be answers count half, so a slot everyone can fully make is always darkest
+const cellScore = (cell: HeatmapCell) => cell.available + cell.maybe / 2;
+
+export function AvailabilityHeatmap({ cells, participantCount, selectedId, highlightedIds = [], onSelect }: AvailabilityHeatmapProps) {
+  const layout = buildGridLayout(cells);
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <div
+          className="inline-grid gap-px"
+          style={{ gridTemplateColumns: `auto repeat(${layout.dates.length}, minmax(3rem, 1fr))` }}
+        >
+          <div />
+          {layout.dates.map(date => (
+            <div key={date} className="text-center text-xs font-medium text-gray-700 pb-1">
+              <div>{formatDate(date).dayName}</div>
+              <div>{formatDate(date).month} {formatDate(date).dayNumber}</div>
+            </div>
+          ))}
+          {layout.times.map(time => (
+            <GridRow key={time} time={time}>
+              {layout.dates.map(date => {
+                const cell = layout.cellAt(date, time);
+                if (!cell) {
+                  return <div key={date} className="h-5 bg-gray-100" />;
+                }
+                const share = participantCount > 0 ? cellScore(cell) / participantCount : 0;
+                const outline = cell.id === selectedId
+                  ? "ring-2 ring-primary z-10"
+                  : highlightedIds.includes(cell.id) ? "ring-2 ring-success z-10" : "";
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    onClick={() => onSelect?.(cell.id)}
+                    className={`h-5 border border-neutral-100 ${outline}`}
+                    style={{ backgroundColor: share > 0 ? `rgba(22, 163, 74, ${0.15 + share * 0.85})` : "white" }}
+                    title={`${formatDate(date).dayName} ${formatTime(time)}: ${cell.available} available, ${cell.maybe} if need be`}
+                  />
+                );
+              })}
+            </GridRow>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+        <span>0/{participantCount} available</span>
+        <div className="h-3 w-24 rounded" style={{ background: "linear-gradient(to right, rgba(22, 163, 74, 0.15), rgb(22, 163, 74))" }} />
+        <span>{participantCount}/{participantCount} available</span>
+      </div>
+    </div>
+  );
+}
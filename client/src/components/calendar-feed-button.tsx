@@ -0,0 +1,23 @@
+import { Rss } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+// Copies the live feed URL; calendar apps subscribed to it follow reschedules and cancellations
+export function CalendarFeedButton({ shareId }: { shareId: string }) {
+  const { toast } = useToast();
+
+  const copyFeedLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/api/events/${shareId}/feed.ics`);
+    toast({
+      title: "Calendar Feed Copied!",
+      description: "Add it in your calendar app as a subscription (\"From URL\") to keep this event up to date.",
+    });
+  };
+
+  return (
+    <Button variant="outline" onClick={copyFeedLink}>
+      <Rss className="mr-2 h-4 w-4" />
+      Subscribe
+    </Button>
+  );
+}
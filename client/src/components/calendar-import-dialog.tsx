@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiUploadText, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { getBrowserTimeZone } from "@shared/time-zone";
+import type { CalendarSuggestions } from "@shared/schema";
+
+interface CalendarImportDialogProps {
+  shareId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (result: CalendarSuggestions) => void;
+}
+
+// Reads an uploaded or pasted .ics export and asks the server which options clash with it
+export function CalendarImportDialog({ shareId, open, onOpenChange, onImport }: CalendarImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File>();
+  const [pasted, setPasted] = useState("");
+  const [calendarError, setCalendarError] = useState<string>();
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const calendar = file ? await file.text() : pasted;
+      const url = `/api/events/${shareId}/calendar-suggestions?timeZone=${encodeURIComponent(getBrowserTimeZone())}`;
+      const response = await apiUploadText(url, calendar, "text/calendar");
+      return response.json() as Promise<CalendarSuggestions>;
+    },
+    onSuccess: (result) => {
+      onImport(result);
+      setFile(undefined);
+      setPasted("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      setCalendarError(getFieldErrors(error).calendar);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to read the calendar. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import from Calendar</DialogTitle>
+          <DialogDescription>
+            Export your calendar as an .ics file (or copy its contents) and we'll mark the options that clash with it.
+            The calendar is only read to make these suggestions and is never saved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Calendar file</label>
+            <Input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => setFile(e.target.files?.[0])}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Or paste its contents</label>
+            <Textarea
+              rows={5}
+              placeholder="BEGIN:VCALENDAR..."
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              disabled={file !== undefined}
+            />
+          </div>
+          {calendarError && <p className="text-sm font-medium text-destructive">{calendarError}</p>}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => {
+              setCalendarError(undefined);
+              importMutation.mutate();
+            }}
+            disabled={importMutation.isPending || (!file && !pasted.trim())}
+          >
+            {importMutation.isPending ? "Checking..." : "Suggest My Availability"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { adminHeaders } from "@/lib/event-tokens";
+
+interface CancelEventDialogProps {
+  shareId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Asks for an optional reason before calling the event off for good
+export function CancelEventDialog({ shareId, open, onOpenChange }: CancelEventDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const [reasonError, setReasonError] = useState<string>();
+
+  const cancelMutation = useMutation({
+    mutationFn: async (cancellationReason: string) => {
+      const response = await apiRequest("POST", `/api/events/${shareId}/cancel`, { reason: cancellationReason }, adminHeaders(shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Event Cancelled",
+        description: "Participants will see the cancellation instead of the poll.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      setReasonError(getFieldErrors(error).reason);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to cancel the event. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Event</DialogTitle>
+          <DialogDescription>
+            Participants will see that the event is off. A cancelled event can't be reopened or edited afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Reason (optional)</label>
+          <Textarea
+            placeholder="e.g. Not enough people are free this month"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {reasonError && <p className="text-sm font-medium text-destructive mt-1">{reasonError}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Event
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              setReasonError(undefined);
+              cancelMutation.mutate(reason);
+            }}
+            disabled={cancelMutation.isPending}
+          >
+            {cancelMutation.isPending ? "Cancelling..." : "Cancel Event"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Clock, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useNow } from "@/hooks/use-now";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders } from "@/lib/event-tokens";
+import { formatDeadline, toDateTimeLocal } from "@/lib/utils";
+import { formatTimeRemaining, isPastDeadline } from "@shared/deadline";
+import type { EventWithDetails } from "@shared/schema";
+
+interface DeadlinePanelProps {
+  event: EventWithDetails;
+  isOrganizer: boolean;
+}
+
+// Shows when responses close; organizers can extend, remove or reopen
+export function DeadlinePanel({ event, isOrganizer }: DeadlinePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const now = useNow();
+  const [newDeadline, setNewDeadline] = useState("");
+  const deadline = event.responseDeadline;
+  const closed = isPastDeadline(deadline, now);
+
+  const deadlineMutation = useMutation({
+    mutationFn: async (responseDeadline: string | null) => {
+      const response = await apiRequest("POST", `/api/events/${event.shareId}/deadline`, { responseDeadline }, adminHeaders(event.shareId));
+      return response.json();
+    },
+    onSuccess: (_result, responseDeadline) => {
+      toast({
+        title: responseDeadline ? "Deadline Updated!" : closed ? "Poll Reopened!" : "Deadline Removed",
+        description: responseDeadline
+          ? `Responses now close on ${formatDeadline(responseDeadline)}.`
+          : "Participants can respond until you confirm a time.",
+      });
+      setNewDeadline("");
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.shareId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update the deadline. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (event.confirmedTimeOptionId !== null || event.status === "cancelled" || (!deadline && !isOrganizer)) {
+    return null;
+  }
+
+  return (
+    <div className={`rounded-lg p-4 mb-6 ${closed ? "bg-gray-50" : "bg-amber-50"}`}>
+      <div className="flex items-center text-sm text-gray-900">
+        {closed ? <Lock className="h-4 w-4 mr-2" /> : <Clock className="h-4 w-4 mr-2" />}
+        {!deadline
+          ? "No response deadline. Responses are collected until you confirm a time."
+          : closed
+            ? `Responses closed on ${formatDeadline(deadline)}.`
+            : `Responses close in ${formatTimeRemaining(deadline, now)} (${formatDeadline(deadline)}).`}
+      </div>
+      {isOrganizer && (
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <Input
+            type="datetime-local"
+            className="w-56 bg-white"
+            value={newDeadline}
+            min={toDateTimeLocal(now)}
+            onChange={(e) => setNewDeadline(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => deadlineMutation.mutate(new Date(newDeadline).toISOString())}
+            disabled={!newDeadline || deadlineMutation.isPending}
+          >
+            {closed ? "Reopen until then" : deadline ? "Extend deadline" : "Set deadline"}
+          </Button>
+          {deadline && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => deadlineMutation.mutate(null)}
+              disabled={deadlineMutation.isPending}
+            >
+              {closed ? "Reopen without deadline" : "Remove deadline"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
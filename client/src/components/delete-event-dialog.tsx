@@ -0,0 +1,78 @@
+import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders, forgetAdminToken, forgetParticipantCredentials } from "@/lib/event-tokens";
+
+interface DeleteEventDialogProps {
+  shareId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Deletes the event and every response to it, then leaves the page
+export function DeleteEventDialog({ shareId, open, onOpenChange }: DeleteEventDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/events/${shareId}`, undefined, adminHeaders(shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      forgetAdminToken(shareId);
+      forgetParticipantCredentials(shareId);
+      queryClient.removeQueries({ queryKey: [`/api/events/${shareId}`] });
+      toast({
+        title: "Event Deleted",
+        description: "The event and all of its responses have been removed.",
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the event. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this event?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The event, its time options and every participant's answers are removed permanently. The share link will stop working.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Event</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={(e) => {
+              e.preventDefault();
+              deleteEventMutation.mutate();
+            }}
+            disabled={deleteEventMutation.isPending}
+          >
+            {deleteEventMutation.isPending ? "Deleting..." : "Delete Event"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
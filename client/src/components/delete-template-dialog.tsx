@@ -0,0 +1,76 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { forgetTemplateToken, templateAdminHeaders } from "@/lib/event-tokens";
+import type { PublicTemplate } from "@shared/schema";
+
+interface DeleteTemplateDialogProps {
+  template: Pick<PublicTemplate, "shareId" | "name">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void;
+}
+
+// Deletes a template this browser saved; events already created from it are untouched
+export function DeleteTemplateDialog({ template, open, onOpenChange, onDeleted }: DeleteTemplateDialogProps) {
+  const { toast } = useToast();
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/templates/${template.shareId}`, undefined, templateAdminHeaders(template.shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      forgetTemplateToken(template.shareId);
+      toast({
+        title: "Template Deleted",
+        description: `"${template.name}" has been removed.`,
+      });
+      onOpenChange(false);
+      onDeleted();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the template. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{template.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The template is removed permanently and its link stops working. Events already created from it are not affected.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Template</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={(e) => {
+              e.preventDefault();
+              deleteTemplateMutation.mutate();
+            }}
+            disabled={deleteTemplateMutation.isPending}
+          >
+            {deleteTemplateMutation.isPending ? "Deleting..." : "Delete Template"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { durationPresets, durationsEqual, type Duration } from "@shared/duration";
+
+interface DurationPickerProps {
+  value?: Duration;
+  onChange: (value: Duration | undefined) => void;
+}
+
+type CustomUnit = "minutes" | "hours" | "days";
+
+const CUSTOM = "custom";
+
+// Converts the custom amount/unit inputs into a Duration, or undefined while incomplete
+const toDuration = (amount: string, unit: CustomUnit): Duration | undefined => {
+  const parsed = parseFloat(amount);
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  switch (unit) {
+    case "minutes":
+      return { unit: "minutes", value: Math.round(parsed) };
+    case "hours":
+      return { unit: "minutes", value: Math.round(parsed * 60) };
+    case "days":
+      return { unit: "days", value: Math.round(parsed) };
+  }
+};
+
+export function DurationPicker({ value, onChange }: DurationPickerProps) {
+  const presetIndex = value ? durationPresets.findIndex(p => durationsEqual(p.duration, value)) : -1;
+  const [customSelected, setCustomSelected] = useState(false);
+  const [customAmount, setCustomAmount] = useState("");
+  const [customUnit, setCustomUnit] = useState<CustomUnit>("hours");
+  const isCustom = customSelected || (value !== undefined && presetIndex === -1);
+
+  // Show a loaded non-preset duration (e.g. when editing) in the custom inputs
+  useEffect(() => {
+    if (!value || presetIndex !== -1) return;
+    const current = toDuration(customAmount, customUnit);
+    if (current && durationsEqual(current, value)) return;
+
+    if (value.unit === "days") {
+      setCustomUnit("days");
+      setCustomAmount(String(value.value));
+    } else if (value.value % 60 === 0 || value.value % 15 === 0) {
+      setCustomUnit("hours");
+      setCustomAmount(String(value.value / 60));
+    } else {
+      setCustomUnit("minutes");
+      setCustomAmount(String(value.value));
+    }
+  }, [value, presetIndex]);
+
+  const onSelect = (selected: string) => {
+    if (selected === CUSTOM) {
+      setCustomSelected(true);
+      onChange(toDuration(customAmount, customUnit));
+      return;
+    }
+    setCustomSelected(false);
+    onChange(durationPresets[parseInt(selected, 10)].duration);
+  };
+
+  const updateCustom = (amount: string, unit: CustomUnit) => {
+    setCustomAmount(amount);
+    setCustomUnit(unit);
+    onChange(toDuration(amount, unit));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select onValueChange={onSelect} value={isCustom ? CUSTOM : presetIndex >= 0 ? String(presetIndex) : ""}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select duration" />
+        </SelectTrigger>
+        <SelectContent>
+          {durationPresets.map((preset, index) => (
+            <SelectItem key={preset.label} value={String(index)}>{preset.label}</SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {isCustom && (
+        <div className="flex space-x-2">
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            placeholder="Length"
+            value={customAmount}
+            onChange={(e) => updateCustom(e.target.value, customUnit)}
+            className="w-28"
+          />
+          <Select value={customUnit} onValueChange={(unit) => updateCustom(customAmount, unit as CustomUnit)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="minutes">minutes</SelectItem>
+              <SelectItem value="hours">hours</SelectItem>
+              <SelectItem value="days">days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
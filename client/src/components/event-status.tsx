@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Ban, Lock, Pause, Play } from "lucide-react";
+import { CancelEventDialog } from "@/components/cancel-event-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders } from "@/lib/event-tokens";
+import { formatDeadline } from "@/lib/utils";
+import { canChangeStatus, statusLabels } from "@shared/status";
+import type { Event, EventStatus, EventWithDetails } from "@shared/schema";
+
+const statusColors: Record<EventStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  open: "bg-blue-50 text-blue-700",
+  closed: "bg-amber-50 text-amber-800",
+  confirmed: "bg-green-50 text-success",
+  cancelled: "bg-red-50 text-red-700",
+};
+
+export function EventStatusBadge({ status }: { status: EventStatus }) {
+  return (
+    <Badge variant="secondary" className={statusColors[status]}>
+      {statusLabels[status]}
+    </Badge>
+  );
+}
+
+// Replaces the poll for everyone once the organizer has called the event off
+export function CancellationNotice({ event }: { event: Pick<Event, "cancelledAt" | "cancellationReason"> }) {
+  return (
+    <div className="rounded-lg p-4 mb-6 bg-red-50">
+      <div className="flex items-center text-sm font-medium text-red-700">
+        <Ban className="h-4 w-4 mr-2" />
+        This event has been cancelled{event.cancelledAt ? ` (${formatDeadline(event.cancelledAt)})` : ""}.
+      </div>
+      {event.cancellationReason && (
+        <p className="text-sm text-gray-900 mt-2 whitespace-pre-line">{event.cancellationReason}</p>
+      )}
+    </div>
+  );
+}
+
+type ManualStatus = Exclude<EventStatus, "confirmed">;
+
+// Button label for moving to each status, depending on where the event is now
+const actionLabel = (from: EventStatus, to: ManualStatus) => {
+  switch (to) {
+    case "open":
+      return from === "draft" ? "Open for responses" : "Reopen";
+    case "draft":
+      return "Back to draft";
+    case "closed":
+      return "Close responses";
+    case "cancelled":
+      return "Cancel event";
+  }
+};
+
+const actionIcons: Record<ManualStatus, typeof Play> = {
+  open: Play,
+  draft: Pause,
+  closed: Lock,
+  cancelled: Ban,
+};
+
+// Organizer buttons for opening, pausing, closing and cancelling an event by hand
+export function EventStatusControls({ event }: { event: EventWithDetails }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmingReopen, setConfirmingReopen] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: Exclude<ManualStatus, "cancelled">) => {
+      const response = await apiRequest("POST", `/api/events/${event.shareId}/status`, { status }, adminHeaders(event.shareId));
+      return response.json();
+    },
+    onSuccess: (_result, status) => {
+      toast({
+        title: `Event ${statusLabels[status]}`,
+        description: status === "open" ? "Participants can respond again." : "Participants will see the new status.",
+      });
+      setConfirmingReopen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.shareId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to change the event status. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const targets = (["open", "draft", "closed", "cancelled"] as const).filter(status => canChangeStatus(event.status, status));
+  if (targets.length === 0) {
+    return null;
+  }
+
+  const requestStatus = (status: ManualStatus) => {
+    if (status === "cancelled") {
+      setCancelling(true);
+    } else if (status === "open" && event.status === "confirmed") {
+      // Reopening drops the chosen time, so ask first
+      setConfirmingReopen(true);
+    } else {
+      statusMutation.mutate(status);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {targets.map(status => {
+          const Icon = actionIcons[status];
+          return (
+            <Button
+              key={status}
+              variant="outline"
+              size="sm"
+              className={status === "cancelled" ? "text-red-600 hover:text-red-700" : ""}
+              onClick={() => requestStatus(status)}
+              disabled={statusMutation.isPending}
+            >
+              <Icon className="mr-2 h-4 w-4" />
+              {actionLabel(event.status, status)}
+            </Button>
+          );
+        })}
+      </div>
+
+      <AlertDialog open={confirmingReopen} onOpenChange={setConfirmingReopen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reopen the poll?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Reopening clears the confirmed time so participants can respond again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep as is</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                statusMutation.mutate("open");
+              }}
+              disabled={statusMutation.isPending}
+            >
+              Reopen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CancelEventDialog shareId={event.shareId} open={cancelling} onOpenChange={setCancelling} />
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/download";
+
+type ResultsFormat = "xlsx" | "csv" | "json";
+
+const formats: Record<ResultsFormat, { label: string; icon: typeof FileJson }> = {
+  xlsx: { label: "Export Excel", icon: FileSpreadsheet },
+  csv: { label: "Export CSV", icon: FileText },
+  json: { label: "Export JSON", icon: FileJson },
+};
+
+// Downloads everyone's answers as a participant × option matrix with totals
+export function ExportResultsButton({ shareId, format }: { shareId: string; format: ResultsFormat }) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { label, icon: Icon } = formats[format];
+
+  const download = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFile(`/api/events/${shareId}/results.${format}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to export the results. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" onClick={download} disabled={isDownloading}>
+      <Icon className="mr-2 h-4 w-4" />
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,65 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TimePicker } from "@/components/ui/time-picker";
+import { gridSlotSizes, type GridConfig } from "@shared/grid";
+
+interface GridConfigFieldsProps {
+  value: GridConfig;
+  onChange: (value: GridConfig) => void;
+  errors?: Partial<Record<keyof GridConfig, string>>;
+}
+
+// Date range, daily window and slot size for a grid event
+export function GridConfigFields({ value, onChange, errors = {} }: GridConfigFieldsProps) {
+  const update = <K extends keyof GridConfig>(field: K, fieldValue: GridConfig[K]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const fieldError = (field: keyof GridConfig) => errors[field] && (
+    <p className="text-sm font-medium text-destructive mt-1">{errors[field]}</p>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm text-gray-600 mb-1">First Day</label>
+        <Input type="date" value={value.startDate} onChange={(e) => update("startDate", e.target.value)} />
+        {fieldError("startDate")}
+      </div>
+      <div>
+        <label className="block text-sm text-gray-600 mb-1">Last Day</label>
+        <Input type="date" value={value.endDate} onChange={(e) => update("endDate", e.target.value)} />
+        {fieldError("endDate")}
+      </div>
+      <div>
+        <label className="block text-sm text-gray-600 mb-1">Earliest Time</label>
+        <TimePicker value={value.dayStartTime} onChange={(time) => update("dayStartTime", time)} />
+        {fieldError("dayStartTime")}
+      </div>
+      <div>
+        <label className="block text-sm text-gray-600 mb-1">Latest Time</label>
+        <TimePicker value={value.dayEndTime} onChange={(time) => update("dayEndTime", time)} />
+        {fieldError("dayEndTime")}
+      </div>
+      <div>
+        <label className="block text-sm text-gray-600 mb-1">Slot Size</label>
+        <Select
+          value={String(value.slotMinutes)}
+          onValueChange={(minutes) => update("slotMinutes", parseInt(minutes, 10) as GridConfig["slotMinutes"])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {gridSlotSizes.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes === 60 ? "1 hour" : `${minutes} minutes`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {fieldError("slotMinutes")}
+      </div>
+    </div>
+  );
+}
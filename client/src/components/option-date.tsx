@@ -0,0 +1,29 @@
+import { formatDate } from "@/lib/utils";
+import { weekdayNames } from "@shared/weekday";
+
+interface OptionDateProps {
+  date: string;
+  weekday: number;
+  isWeekdayOption: boolean;
+  numberClassName?: string;
+}
+
+// Calendar-style day block for a time option; weekday options show the weekday instead of a date
+export function OptionDate({ date, weekday, isWeekdayOption, numberClassName = "text-gray-900" }: OptionDateProps) {
+  if (isWeekdayOption) {
+    return (
+      <div className="text-center">
+        <div className={`text-lg font-bold ${numberClassName}`}>{weekdayNames[weekday].slice(0, 3)}</div>
+        <div className="text-sm text-gray-500">Weekly</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center">
+      <div className="text-lg font-semibold text-gray-900">{formatDate(date).dayName}</div>
+      <div className={`text-2xl font-bold ${numberClassName}`}>{formatDate(date).dayNumber}</div>
+      <div className="text-sm text-gray-500">{formatDate(date).month}</div>
+    </div>
+  );
+}
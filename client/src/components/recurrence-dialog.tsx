@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatRecurrence, nextDateOnWeekday, recurrenceSchema, todayDate, weekdayNames, weekdayOf, type Recurrence } from "@shared/weekday";
+
+interface RecurrenceDialogProps {
+  weekday: number | null; // the weekday option being confirmed; null closes the dialog
+  onConfirm: (recurrence?: Recurrence) => void;
+  onClose: () => void;
+  isPending: boolean;
+}
+
+// Confirms a weekday option, optionally as a schedule that repeats every few weeks
+export function RecurrenceDialog({ weekday, onConfirm, onClose, isPending }: RecurrenceDialogProps) {
+  const [startDate, setStartDate] = useState("");
+  const [interval, setIntervalWeeks] = useState(1);
+  const [until, setUntil] = useState("");
+
+  useEffect(() => {
+    if (weekday !== null) {
+      setStartDate(nextDateOnWeekday(weekday, todayDate()));
+      setIntervalWeeks(1);
+      setUntil("");
+    }
+  }, [weekday]);
+
+  const parsed = recurrenceSchema.safeParse({ startDate, interval, until: until || undefined });
+  const error = weekday !== null && startDate && weekdayOf(startDate) !== weekday
+    ? `The schedule must start on a ${weekdayNames[weekday]}`
+    : parsed.success ? undefined : parsed.error.issues[0].message;
+
+  return (
+    <Dialog open={weekday !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm {weekday !== null ? `${weekdayNames[weekday]}s` : "this time"}</DialogTitle>
+          <DialogDescription>
+            Optionally turn the chosen weekday into a recurring schedule that everyone can see.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">First Date</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Repeats</label>
+            <Select value={String(interval)} onValueChange={(value) => setIntervalWeeks(parseInt(value, 10))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4].map(weeks => (
+                  <SelectItem key={weeks} value={String(weeks)}>
+                    {weeks === 1 ? "Every week" : `Every ${weeks} weeks`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Until (optional)</label>
+            <Input type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+          </div>
+        </div>
+        {error ? (
+          <p className="text-sm font-medium text-destructive">{error}</p>
+        ) : parsed.success && (
+          <p className="text-sm text-gray-600">{formatRecurrence(parsed.data)}</p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onConfirm()} disabled={isPending}>
+            Confirm without schedule
+          </Button>
+          <Button
+            className="bg-success hover:bg-green-600"
+            onClick={() => parsed.success && onConfirm(parsed.data)}
+            disabled={isPending || !!error}
+          >
+            {isPending ? "Confirming..." : "Confirm schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Trash2, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders } from "@/lib/event-tokens";
+import type { EventWithDetails } from "@shared/schema";
+
+type Respondent = { id: number; name: string };
+
+// Everyone who answered, taken from the per-option lists
+function getRespondents(event: EventWithDetails): Respondent[] {
+  const byId = new Map<number, Respondent>();
+  for (const option of event.timeOptions) {
+    for (const participant of option.participants) {
+      byId.set(participant.id, { id: participant.id, name: participant.name });
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Lets the organizer remove individual responses, e.g. when someone asks to be taken off the poll
+export function ResponsesPanel({ event }: { event: EventWithDetails }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [removing, setRemoving] = useState<Respondent>();
+
+  const removeResponseMutation = useMutation({
+    mutationFn: async (participantId: number) => {
+      const response = await apiRequest("DELETE", `/api/events/${event.shareId}/participants/${participantId}`, undefined, adminHeaders(event.shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Response Removed",
+        description: `${removing?.name ?? "The participant"}'s answers have been deleted.`,
+      });
+      setRemoving(undefined);
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.shareId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to remove the response. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const respondents = getRespondents(event);
+  if (respondents.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center mr-3">
+            <UserRound className="text-white h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Responses</h3>
+            <p className="text-sm text-gray-600">Only you can see this list and remove answers from it</p>
+          </div>
+        </div>
+
+        <div className="divide-y divide-neutral-100 border border-neutral-100 rounded-lg">
+          {respondents.map(respondent => (
+            <div key={respondent.id} className="flex items-center justify-between px-4 py-2">
+              <span className="text-sm text-gray-900">{respondent.name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => setRemoving(respondent)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={removing !== undefined} onOpenChange={(open) => !open && setRemoving(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removing?.name}'s response?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their name and all of their answers are deleted from this event. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={(e) => {
+                e.preventDefault();
+                if (removing) removeResponseMutation.mutate(removing.id);
+              }}
+              disabled={removeResponseMutation.isPending}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { adminHeaders, saveTemplateToken } from "@/lib/event-tokens";
+import type { Template } from "@shared/schema";
+
+interface SaveTemplateDialogProps {
+  shareId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Names the event's format and saves it as a template this browser can reuse and delete
+export function SaveTemplateDialog({ shareId, open, onOpenChange }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [nameError, setNameError] = useState<string>();
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (templateName: string): Promise<Template> => {
+      const response = await apiRequest("POST", `/api/events/${shareId}/template`, { template: { name: templateName } }, adminHeaders(shareId));
+      return response.json();
+    },
+    onSuccess: (template) => {
+      saveTemplateToken(template.shareId, template.adminToken);
+      toast({
+        title: "Template Saved!",
+        description: "It's now available when you create a new event in this browser.",
+      });
+      setName("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      setNameError(getFieldErrors(error, "template.").name);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the template. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keeps the title, description, duration and option pattern so the same format can be reused from the create page. Only you see it there, unless you share its link.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <label className="block text-sm text-gray-600 mb-1">Template Name</label>
+          <Input
+            placeholder="e.g. 90-minute design review, weekday afternoons"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          {nameError && <p className="text-sm font-medium text-destructive mt-1">{nameError}</p>}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => {
+              setNameError(undefined);
+              saveTemplateMutation.mutate(name);
+            }}
+            disabled={saveTemplateMutation.isPending}
+          >
+            {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
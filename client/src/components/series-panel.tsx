@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Repeat, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders, saveAdminToken } from "@/lib/event-tokens";
+import { formatOptionDay } from "@/lib/utils";
+import { formatSeriesRule, type SeriesRule } from "@shared/series";
+import { getOptionDate } from "@shared/weekday";
+import type { EventWithDetails, SeriesInstance } from "@shared/schema";
+
+interface SeriesPanelProps {
+  event: EventWithDetails;
+  isOrganizer: boolean;
+}
+
+const ruleChoices: SeriesRule[] = [
+  { unit: "weeks", interval: 1 },
+  { unit: "weeks", interval: 2 },
+  { unit: "months", interval: 1 },
+  { unit: "months", interval: 2 },
+  { unit: "months", interval: 3 },
+];
+
+const ruleKey = (rule: SeriesRule) => `${rule.unit}:${rule.interval}`;
+
+// Turns an event into a repeating series and lists its rounds, oldest first
+export function SeriesPanel({ event, isOrganizer }: SeriesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [rule, setRule] = useState<SeriesRule>(event.seriesRule ?? { unit: "months", interval: 1 });
+  const seriesKey = `/api/events/${event.shareId}/series`;
+
+  const { data: instances = [] } = useQuery<SeriesInstance[]>({
+    queryKey: [seriesKey],
+    enabled: event.seriesId !== null,
+  });
+
+  const startSeriesMutation = useMutation({
+    mutationFn: async (seriesRule: SeriesRule) => {
+      const response = await apiRequest("POST", seriesKey, { rule: seriesRule }, adminHeaders(event.shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Series Saved!",
+        description: "You can now start the next round whenever you're ready.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${event.shareId}`] });
+      queryClient.invalidateQueries({ queryKey: [seriesKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the series. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nextRoundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${seriesKey}/next`, undefined, adminHeaders(event.shareId));
+      return response.json();
+    },
+    onSuccess: (result) => {
+      // The new round has its own admin token, kept like one from /create
+      saveAdminToken(result.shareId, result.adminToken);
+      toast({
+        title: "Next Round Created!",
+        description: "Share the new link so everyone can answer again.",
+      });
+      queryClient.invalidateQueries({ queryKey: [seriesKey] });
+      setLocation(`/event/${result.shareId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the next round. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (event.seriesId === null && !isOrganizer) {
+    return null;
+  }
+
+  const latest = instances[instances.length - 1];
+  const isLatest = !latest || latest.shareId === event.shareId;
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center">
+          <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center mr-3">
+            <Repeat className="text-white h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Series</h3>
+            <p className="text-sm text-gray-600">
+              {event.seriesRule ? formatSeriesRule(event.seriesRule) : "Re-run this poll with its dates moved forward"}
+            </p>
+          </div>
+        </div>
+
+        {isOrganizer && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={ruleKey(rule)}
+              onValueChange={(key) => setRule(ruleChoices.find(choice => ruleKey(choice) === key) ?? rule)}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ruleChoices.map(choice => (
+                  <SelectItem key={ruleKey(choice)} value={ruleKey(choice)}>{formatSeriesRule(choice)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => startSeriesMutation.mutate(rule)}
+              disabled={startSeriesMutation.isPending || (event.seriesRule !== null && ruleKey(event.seriesRule) === ruleKey(rule))}
+            >
+              {event.seriesId === null ? "Make this a series" : "Change rule"}
+            </Button>
+            {event.seriesId !== null && isLatest && (
+              <Button onClick={() => nextRoundMutation.mutate()} disabled={nextRoundMutation.isPending}>
+                {nextRoundMutation.isPending ? "Creating..." : "Start next round"}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        {instances.length > 0 && (
+          <div className="divide-y divide-neutral-100 border border-neutral-100 rounded-lg">
+            {instances.map((instance, index) => (
+              <div key={instance.shareId} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    Round {index + 1}
+                    {instance.shareId === event.shareId && (
+                      <Badge variant="secondary" className="ml-2">This round</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {instance.status === "cancelled"
+                      ? `Cancelled${instance.cancellationReason ? `: ${instance.cancellationReason}` : ""}`
+                      : instance.confirmedTimeOption
+                      ? `Scheduled for ${formatOptionDay(getOptionDate(instance.confirmedTimeOption), instance.confirmedTimeOption.weekday ?? 0, instance.confirmedTimeOption.weekday !== null)}`
+                      : "Not scheduled yet"}
+                    {" · "}
+                    {instance.participantCount} {instance.participantCount === 1 ? "response" : "responses"}
+                  </div>
+                </div>
+                {instance.shareId !== event.shareId && (
+                  <Link href={`/event/${instance.shareId}`}>
+                    <Button variant="ghost" size="sm">View</Button>
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
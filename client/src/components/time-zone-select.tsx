@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getSupportedTimeZones } from "@shared/time-zone";
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function TimeZoneSelect({ value, onChange }: TimeZoneSelectProps) {
+  const timeZones = useMemo(() => {
+    const supported = getSupportedTimeZones();
+    // Intl doesn't always list aliases like "UTC" that the browser itself reports
+    return supported.includes(value) ? supported : [value, ...supported];
+  }, [value]);
+
+  return (
+    <Select onValueChange={onChange} value={value}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select time zone" />
+      </SelectTrigger>
+      <SelectContent>
+        {timeZones.map(timeZone => (
+          <SelectItem key={timeZone} value={timeZone}>{timeZone.replace(/_/g, " ")}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,48 @@
+import { Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatTimeZoneAbbreviation, formatTimeZoneName } from "@shared/time-zone";
+
+interface TimeZoneToggleProps {
+  eventTimeZone: string;
+  viewerTimeZone: string;
+  displayTimeZone: string;
+  onChange: (timeZone: string) => void;
+  referenceDate: string; // picks the right DST abbreviation
+}
+
+// Switches option times between the viewer's own zone and the organizer's
+export function TimeZoneToggle({ eventTimeZone, viewerTimeZone, displayTimeZone, onChange, referenceDate }: TimeZoneToggleProps) {
+  const label = (timeZone: string) => `${formatTimeZoneName(timeZone)} (${formatTimeZoneAbbreviation(timeZone, referenceDate)})`;
+
+  if (eventTimeZone === viewerTimeZone) {
+    return (
+      <div className="flex items-center text-sm text-gray-600">
+        <Globe className="w-4 h-4 mr-2" />
+        Times shown in {label(eventTimeZone)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <Globe className="w-4 h-4" />
+      <span>Show times in</span>
+      <Button
+        type="button"
+        size="sm"
+        variant={displayTimeZone === viewerTimeZone ? "default" : "outline"}
+        onClick={() => onChange(viewerTimeZone)}
+      >
+        Your time: {label(viewerTimeZone)}
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={displayTimeZone === eventTimeZone ? "default" : "outline"}
+        onClick={() => onChange(eventTimeZone)}
+      >
+        Organizer's time: {label(eventTimeZone)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The current time, refreshed on an interval so countdowns stay current
+export function useNow(intervalMs = 30_000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,16 @@
+import { apiRequest } from "./queryClient";
+
+// Fetches a file from the API and hands it to the browser as a download, using the server's file name.
+// Going through fetch rather than a plain link lets organizer-only exports send the admin token.
+export async function downloadFile(url: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await apiRequest("GET", url, undefined, headers);
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "download";
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
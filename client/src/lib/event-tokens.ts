@@ -0,0 +1,75 @@
+// Secrets handed out by the API are kept in localStorage, keyed by the event's share ID
+
+const adminTokenKey = (shareId: string) => `hangtime:admin:${shareId}`;
+
+export function getAdminToken(shareId: string): string | null {
+  return localStorage.getItem(adminTokenKey(shareId));
+}
+
+export function saveAdminToken(shareId: string, adminToken: string): void {
+  localStorage.setItem(adminTokenKey(shareId), adminToken);
+}
+
+export function forgetAdminToken(shareId: string): void {
+  localStorage.removeItem(adminTokenKey(shareId));
+}
+
+export function adminHeaders(shareId: string): Record<string, string> {
+  const adminToken = getAdminToken(shareId);
+  return adminToken ? { "X-Admin-Token": adminToken } : {};
+}
+
+export function getManagementUrl(shareId: string, adminToken: string): string {
+  return `${window.location.origin}/event/${shareId}?admin=${encodeURIComponent(adminToken)}`;
+}
+
+export type ParticipantCredentials = {
+  participantId: number;
+  editToken: string;
+};
+
+const participantKey = (shareId: string) => `hangtime:participant:${shareId}`;
+
+export function getParticipantCredentials(shareId: string): ParticipantCredentials | null {
+  const stored = localStorage.getItem(participantKey(shareId));
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function saveParticipantCredentials(shareId: string, credentials: ParticipantCredentials): void {
+  localStorage.setItem(participantKey(shareId), JSON.stringify(credentials));
+}
+
+export function forgetParticipantCredentials(shareId: string): void {
+  localStorage.removeItem(participantKey(shareId));
+}
+
+// Templates this browser saved, with the admin token that lets it delete each one.
+// The server has no public list, so this is also how the create page finds them.
+const templatesKey = "hangtime:templates";
+
+function getTemplateTokens(): Record<string, string> {
+  const stored = localStorage.getItem(templatesKey);
+  return stored ? JSON.parse(stored) : {};
+}
+
+export function getSavedTemplateShareIds(): string[] {
+  return Object.keys(getTemplateTokens());
+}
+
+export function saveTemplateToken(shareId: string, adminToken: string): void {
+  localStorage.setItem(templatesKey, JSON.stringify({ ...getTemplateTokens(), [shareId]: adminToken }));
+}
+
+export function forgetTemplateToken(shareId: string): void {
+  const { [shareId]: _forgotten, ...rest } = getTemplateTokens();
+  localStorage.setItem(templatesKey, JSON.stringify(rest));
+}
+
+export function templateAdminHeaders(shareId: string): Record<string, string> {
+  const adminToken = getTemplateTokens()[shareId];
+  return adminToken ? { "X-Admin-Token": adminToken } : {};
+}
+
+export function getTemplateUrl(shareId: string): string {
+  return `${window.location.origin}/create?template=${encodeURIComponent(shareId)}`;
+}
@@ -1,20 +1,62 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export type ApiErrorBody = {
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+  [key: string]: unknown;
+};
+
+// Thrown for non-2xx responses; keeps the status and the parsed JSON error body
+export class ApiRequestError extends Error {
+  constructor(public status: number, public body: ApiErrorBody, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiRequestError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: ApiErrorBody = {};
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = { error: text };
+    }
+    throw new ApiRequestError(res.status, body, text);
   }
 }
 
+// Field errors from an API error whose path starts with `prefix`, keyed by the rest of the path
+export function getFieldErrors(error: unknown, prefix = ""): Record<string, string> {
+  if (!(error instanceof ApiRequestError) || !error.body.fieldErrors) return {};
+
+  const fieldErrors: Record<string, string> = {};
+  for (const [path, messages] of Object.entries(error.body.fieldErrors)) {
+    if (path.startsWith(prefix)) {
+      fieldErrors[path.slice(prefix.length)] = messages[0];
+    }
+  }
+  return fieldErrors;
+}
+
+// The server's error message, or a fallback for network failures and unexpected responses
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiRequestError && error.status < 500 && error.body.error) {
+    return error.body.error;
+  }
+  return fallback;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,6 +65,19 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a raw text body, such as a calendar file, where apiRequest would send JSON
+export async function apiUploadText(url: string, text: string, contentType: string): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body: text,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { weekdayNames } from "@shared/weekday";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -24,33 +25,21 @@ export function formatTime(timeString: string): string {
   return `${displayHour}:${minutes} ${period}`;
 }
 
-export function getBestTimeSlotIds(timeOptions: any[]): number[] {
-  if (timeOptions.length === 0) return [];
-
-  // Check if there are any responses at all
-  const totalResponses = timeOptions.reduce(
-    (sum, option) => sum + option.availabilityCount.total,
-    0
-  );
-  if (totalResponses === 0) return [];
-
-  // Find max available count
-  const maxAvailable = Math.max(
-    ...timeOptions.map(option => option.availabilityCount.available)
-  );
-
-  // Filter to options matching max available
-  const topAvailableOptions = timeOptions.filter(
-    option => option.availabilityCount.available === maxAvailable
-  );
+// "Tue Nov 3" for dated options, "Tuesdays" for weekday options
+export function formatOptionDay(date: string, weekday: number, isWeekdayOption: boolean): string {
+  if (isWeekdayOption) return `${weekdayNames[weekday]}s`;
+  const { dayName, month, dayNumber } = formatDate(date);
+  return `${dayName} ${month} ${dayNumber}`;
+}
 
-  // Among those, find max maybe count
-  const maxMaybe = Math.max(
-    ...topAvailableOptions.map(option => option.availabilityCount.maybe)
-  );
+// A deadline in the viewer's own zone, e.g. "Tue, Oct 20, 6:00 PM"
+export function formatDeadline(deadline: Date | string): string {
+  return new Date(deadline).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
 
-  // Return IDs of all options matching both max available AND max maybe
-  return topAvailableOptions
-    .filter(option => option.availabilityCount.maybe === maxMaybe)
-    .map(option => option.id);
+// Value for a datetime-local input, in the viewer's own zone
+export function toDateTimeLocal(date: Date | string): string {
+  const local = new Date(date);
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+  return local.toISOString().slice(0, 16);
 }
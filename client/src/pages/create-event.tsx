@@ -1,7 +1,7 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
-import { Plus, Trash2, Rocket } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useRef, useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { Plus, Trash2, Rocket, Copy, Link2 } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,74 +15,49 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { getSavedTemplateShareIds, getTemplateUrl, saveAdminToken, saveParticipantCredentials } from "@/lib/event-tokens";
 import { formatTime } from "@/lib/utils";
 import { TimePicker } from "@/components/ui/time-picker";
+import { DurationPicker } from "@/components/duration-picker";
+import { TimeZoneSelect } from "@/components/time-zone-select";
+import { GridConfigFields } from "@/components/grid-config-fields";
+import { AvailabilityGrid, PaintStatusPicker, type PaintStatus } from "@/components/availability-grid";
+import { DeleteTemplateDialog } from "@/components/delete-template-dialog";
+import { durationSchema, addDays, calculateEndTime, calculateEndDate, formatShortDate, isAllDay, isMultiDay } from "@shared/duration";
+import { getBrowserTimeZone } from "@shared/time-zone";
+import { generateGridSlots, gridConfigSchema, type GridConfig } from "@shared/grid";
+import { todayDate, weekdayNames } from "@shared/weekday";
+import { applyPattern, patternFromEvent, suggestPatternStart, type EventPattern } from "@shared/template";
+import type { EventKind, EventWithDetails, PublicTemplate } from "@shared/schema";
 
 const formSchema = z.object({
   title: z.string().min(1, "Event title is required"),
   description: z.string().optional(),
-  duration: z.string().min(1, "Duration is required"),
+  duration: durationSchema.optional(), // required for polls; grid events use the slot size
+  timeZone: z.string().min(1, "Time zone is required"),
   organizerName: z.string().min(1, "Your name is required"),
+  responseDeadline: z.string().optional(), // datetime-local value in the organizer's own zone
 });
 
 type TimeOption = {
   date: string;
+  weekday: string; // used instead of the date for weekday polls
   startTime: string;
   availability: "available" | "maybe" | "unavailable";
 };
 
-// Helper function to calculate end time based on start time and duration
-const calculateEndTime = (startTime: string, duration: string): string => {
-  if (!startTime) return "";
-  
-  const [hours, minutes] = startTime.split(':').map(Number);
-  let durationMinutes = 0;
-  
-  switch (duration) {
-    case "30 minutes":
-      durationMinutes = 30;
-      break;
-    case "1 hour":
-      durationMinutes = 60;
-      break;
-    case "1.5 hours":
-      durationMinutes = 90;
-      break;
-    case "2 hours":
-      durationMinutes = 120;
-      break;
-    case "3 hours":
-      durationMinutes = 180;
-      break;
-    case "4 hours":
-      durationMinutes = 240;
-      break;
-    case "5 hours":
-      durationMinutes = 300;
-      break;
-    case "6 hours":
-      durationMinutes = 360;
-      break;
-    case "All day":
-      return "23:59";
-    case "2 days":
-      return "Multi-day";
-    case "3 days":
-      return "Multi-day";
-    case "4 days":
-      return "Multi-day";
-    case "A week":
-      return "Multi-day";
-    default:
-      return "";
-  }
-  
-  const totalMinutes = hours * 60 + minutes + durationMinutes;
-  const endHours = Math.floor(totalMinutes / 60) % 24;
-  const endMins = totalMinutes % 60;
-  
-  return `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
+// Details copied from an existing event or a saved template, with its option pattern
+type EventStarter = Pick<PublicTemplate, "title" | "description" | "duration" | "timeZone" | "kind"> & {
+  pattern: EventPattern;
+  label: string;
+  template?: Pick<PublicTemplate, "shareId" | "name">;
+};
+
+// Starts a grid on today's week during working hours
+const defaultGridConfig = (): GridConfig => {
+  const today = new Date().toISOString().split('T')[0];
+  return { startDate: today, endDate: addDays(today, 6), dayStartTime: "09:00", dayEndTime: "17:00", slotMinutes: 30 };
 };
 
 // Helper function to get the next day's date string
@@ -93,90 +68,131 @@ const getNextDay = (dateString: string): string => {
   return date.toISOString().split('T')[0];
 };
 
-// Helper function to calculate end date for multi-day events
-const calculateEndDate = (startDate: string, duration: string): string => {
-  if (!startDate) return "";
-  
-  // Parse the date string properly to avoid timezone issues
-  const [year, month, day] = startDate.split('-').map(Number);
-  const date = new Date(year, month - 1, day); // month is 0-indexed
-  let daysToAdd = 0;
-  
-  switch (duration) {
-    case "2 days":
-      daysToAdd = 1; // Day 1 + Day 2 = 1 day later
-      break;
-    case "3 days":
-      daysToAdd = 2; // Day 1 + Day 2 + Day 3 = 2 days later
-      break;
-    case "4 days":
-      daysToAdd = 3; // Day 1 + Day 2 + Day 3 + Day 4 = 3 days later
-      break;
-    case "A week":
-      daysToAdd = 7; // Start day + 7 more days
-      break;
-    default:
-      return "";
-  }
-  
-  date.setDate(date.getDate() + daysToAdd);
-  return date.toLocaleDateString('en-US');
-};
-
-// Helper function to check if duration is multi-day
-const isMultiDay = (duration: string): boolean => {
-  return ["2 days", "3 days", "4 days", "A week"].includes(duration);
-};
-
 export default function CreateEvent() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [timeOptions, setTimeOptions] = useState<TimeOption[]>([
-    { date: "", startTime: "", availability: "available" }
+    { date: "", weekday: "", startTime: "", availability: "available" }
   ]);
+  const [timeOptionErrors, setTimeOptionErrors] = useState<Record<number, string>>({});
+  const [kind, setKind] = useState<EventKind>("poll");
+  const [gridConfig, setGridConfig] = useState<GridConfig>(defaultGridConfig);
+  const [gridErrors, setGridErrors] = useState<Partial<Record<keyof GridConfig, string>>>({});
+  // The organizer's own painted slots, keyed by position in the generated grid
+  const [gridAvailability, setGridAvailability] = useState<Record<number, string>>({});
+  const [paintStatus, setPaintStatus] = useState<PaintStatus>("available");
+  // Positions in timeOptions of the rows that were actually submitted
+  const submittedIndicesRef = useRef<number[]>([]);
+  // Which submit button was used: drafts aren't open for responses until published
+  const submitStatusRef = useRef<"draft" | "open">("open");
+  const [starter, setStarter] = useState<EventStarter>();
+  const [starterStart, setStarterStart] = useState("");
+
+  // /create?from=<shareId> duplicates an event, /create?template=<shareId> opens a template from its link
+  const searchParams = new URLSearchParams(useSearch());
+  const fromShareId = searchParams.get("from");
+  const templateShareId = searchParams.get("template");
+  // Only templates saved in this browser are listed; others open by link
+  const [savedTemplateShareIds, setSavedTemplateShareIds] = useState(getSavedTemplateShareIds);
+  const [deletingTemplate, setDeletingTemplate] = useState(false);
+
+  const { data: sourceEvent } = useQuery<EventWithDetails>({
+    queryKey: [`/api/events/${fromShareId}`],
+    enabled: !!fromShareId,
+  });
+  const { data: linkedTemplate } = useQuery<PublicTemplate>({
+    queryKey: [`/api/templates/${templateShareId}`],
+    enabled: !!templateShareId,
+  });
+  const { data: templates = [] } = useQuery<PublicTemplate[]>({
+    queryKey: [`/api/templates?shareIds=${savedTemplateShareIds.map(encodeURIComponent).join(",")}`],
+    enabled: savedTemplateShareIds.length > 0,
+  });
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: "",
       description: "",
-      duration: "",
+      duration: undefined,
+      timeZone: getBrowserTimeZone(),
       organizerName: "",
+      responseDeadline: "",
     },
   });
 
   const createEventMutation = useMutation({
-    mutationFn: async (data: { event: z.infer<typeof formSchema>; timeOptions: TimeOption[] }) => {
-      const response = await apiRequest("POST", "/api/events", data);
+    mutationFn: async ({ creatorStatuses, ...data }: {
+      event: z.infer<typeof formSchema> & { kind: EventKind; gridConfig?: GridConfig };
+      timeOptions: Array<{ date?: string; weekday?: number; startTime?: string }>;
+      status: "draft" | "open";
+      creatorStatuses: string[];
+    }) => {
+      const { responseDeadline } = data.event;
+      const response = await apiRequest("POST", "/api/events", {
+        ...data,
+        event: { ...data.event, responseDeadline: responseDeadline ? new Date(responseDeadline).toISOString() : null },
+      });
       const result = await response.json();
-      return { result, originalTimeOptions: data.timeOptions, organizerName: data.event.organizerName };
+      return { result, creatorStatuses, organizerName: data.event.organizerName };
     },
-    onSuccess: async ({ result, originalTimeOptions, organizerName }) => {
+    onSuccess: async ({ result, creatorStatuses, organizerName }) => {
+      const isDraft = result.status === "draft";
+      // Keep the organizer's admin token so this browser can manage the event
+      saveAdminToken(result.shareId, result.adminToken);
+
       // Submit creator's availability
       try {
         const availabilityData = result.timeOptions.map((timeOption: { id: number }, index: number) => ({
           timeOptionId: timeOption.id,
-          status: originalTimeOptions[index].availability,
+          status: creatorStatuses[index] ?? "unavailable",
         }));
 
-        await apiRequest("POST", `/api/events/${result.shareId}/participate`, {
+        // The admin token lets the organizer answer even while the event is a draft
+        const response = await apiRequest("POST", `/api/events/${result.shareId}/participate`, {
           participant: { name: organizerName },
           availability: availabilityData,
-        });
+        }, { "X-Admin-Token": result.adminToken });
+        const { participantId, editToken } = await response.json();
+        saveParticipantCredentials(result.shareId, { participantId, editToken });
       } catch (error) {
         console.error("Failed to submit creator availability:", error);
       }
 
       toast({
-        title: "Event Created!",
-        description: "Your event has been created successfully.",
+        title: isDraft ? "Draft Saved!" : "Event Created!",
+        description: isDraft
+          ? "Open the event for responses from its page when you're ready to share it."
+          : "Your event has been created. Save the private management link to edit it later.",
       });
       setLocation(`/event/${result.shareId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      for (const [field, message] of Object.entries(getFieldErrors(error, "event."))) {
+        if (field in formSchema.shape) {
+          form.setError(field as keyof z.infer<typeof formSchema>, { message });
+        }
+      }
+
+      const gridFieldErrors: Partial<Record<keyof GridConfig, string>> = {};
+      for (const [field, message] of Object.entries(getFieldErrors(error, "event.gridConfig."))) {
+        gridFieldErrors[field as keyof GridConfig] = message;
+      }
+      setGridErrors(gridFieldErrors);
+
+      // Server paths like "3.date" refer to the filtered list that was submitted
+      const optionErrors: Record<number, string> = {};
+      for (const [path, message] of Object.entries(getFieldErrors(error, "timeOptions."))) {
+        const rowIndex = submittedIndicesRef.current[parseInt(path, 10)];
+        if (rowIndex !== undefined) {
+          optionErrors[rowIndex] ??= message;
+        }
+      }
+      setTimeOptionErrors(optionErrors);
+
       toast({
         title: "Error",
-        description: "Failed to create event. Please try again.",
+        description: getErrorMessage(error, "Failed to create event. Please try again."),
         variant: "destructive",
       });
     },
@@ -185,9 +201,10 @@ export default function CreateEvent() {
   const addTimeOption = () => {
     const lastOption = timeOptions[timeOptions.length - 1];
     const nextDate = lastOption.date ? getNextDay(lastOption.date) : "";
+    const nextWeekday = lastOption.weekday ? String((parseInt(lastOption.weekday, 10) + 1) % 7) : "";
     const nextStartTime = lastOption.startTime || "";
     
-    setTimeOptions([...timeOptions, { date: nextDate, startTime: nextStartTime, availability: "available" }]);
+    setTimeOptions([...timeOptions, { date: nextDate, weekday: nextWeekday, startTime: nextStartTime, availability: "available" }]);
   };
 
   const removeTimeOption = (index: number) => {
@@ -208,14 +225,94 @@ export default function CreateEvent() {
     setTimeOptions(updated);
   };
 
+  // Painted cells are keyed by slot position, which changes with the grid settings
+  const updateGridConfig = (config: GridConfig) => {
+    setGridConfig(config);
+    setGridAvailability({});
+  };
+
+  // Replaces the options with the starter's pattern, its first day moved to startDate
+  const layOutPattern = (pattern: EventPattern, startDate: string) => {
+    const laidOut = applyPattern(pattern, startDate);
+    if (laidOut.gridConfig) {
+      updateGridConfig(laidOut.gridConfig);
+    } else if (laidOut.timeOptions.length > 0) {
+      setTimeOptions(laidOut.timeOptions.map(option => ({
+        date: option.date ?? "",
+        weekday: option.weekday?.toString() ?? "",
+        startTime: option.startTime,
+        availability: "available",
+      })));
+      setTimeOptionErrors({});
+    }
+  };
+
+  const startFrom = (source: EventStarter) => {
+    const startDate = suggestPatternStart(source.pattern, todayDate());
+    setStarter(source);
+    setStarterStart(startDate);
+    form.reset({
+      ...form.getValues(),
+      title: source.title,
+      description: source.description ?? "",
+      duration: source.kind === "grid" ? undefined : source.duration,
+      timeZone: source.timeZone,
+    });
+    setKind(source.kind);
+    layOutPattern(source.pattern, startDate);
+  };
+
+  const startFromTemplate = (template: PublicTemplate) => {
+    startFrom({ ...template, label: `the "${template.name}" template`, template });
+  };
+
+  const copyTemplateLink = (shareId: string) => {
+    navigator.clipboard.writeText(getTemplateUrl(shareId));
+    toast({
+      title: "Link Copied!",
+      description: "Anyone with this link can start an event from the template.",
+    });
+  };
+
+  // Fill the form once the source loads; later edits are the organizer's own
+  useEffect(() => {
+    if (sourceEvent) {
+      startFrom({ ...sourceEvent, pattern: patternFromEvent(sourceEvent), label: `"${sourceEvent.title}"` });
+    }
+  }, [sourceEvent]);
+
+  useEffect(() => {
+    if (linkedTemplate) {
+      startFromTemplate(linkedTemplate);
+    }
+  }, [linkedTemplate]);
+
+  const duration = form.watch("duration");
+  const parsedGridConfig = gridConfigSchema.safeParse(gridConfig);
+  const gridSlots = parsedGridConfig.success ? generateGridSlots(parsedGridConfig.data) : [];
+
   const onSubmit = (data: z.infer<typeof formSchema>) => {
-    const validTimeOptions = timeOptions.filter(option => {
-      if (isMultiDay(data.duration)) {
-        return option.date; // Only date required for multi-day events
+    if (kind === "grid") {
+      submitGrid(data);
+      return;
+    }
+
+    if (!data.duration) {
+      form.setError("duration", { message: "Duration is required" });
+      return;
+    }
+    const eventDuration = data.duration;
+    const isComplete = (option: TimeOption) => {
+      const day = kind === "weekly" ? option.weekday : option.date;
+      if (isAllDay(eventDuration)) {
+        return day; // Only the day required for all-day events
       } else {
-        return option.date && option.startTime; // Both date and time required for single-day events
+        return day && option.startTime; // Both day and time required for single-day events
       }
-    });
+    };
+    const validTimeOptions = timeOptions.filter(isComplete);
+    submittedIndicesRef.current = timeOptions.flatMap((option, index) => isComplete(option) ? [index] : []);
+    setTimeOptionErrors({});
 
     if (validTimeOptions.length === 0) {
       toast({
@@ -226,16 +323,36 @@ export default function CreateEvent() {
       return;
     }
 
-    // Calculate end times based on start time and duration
-    const timeOptionsWithEndTime = validTimeOptions.map(option => ({
-      ...option,
-      startTime: isMultiDay(data.duration) ? "09:00" : option.startTime, // Default start time for multi-day
-      endTime: calculateEndTime(isMultiDay(data.duration) ? "09:00" : option.startTime, data.duration)
-    }));
+    // The server derives end times from the duration; all-day events don't need a start time
+    createEventMutation.mutate({
+      event: { ...data, kind },
+      timeOptions: validTimeOptions.map(option => ({
+        ...(kind === "weekly" ? { weekday: parseInt(option.weekday, 10) } : { date: option.date }),
+        startTime: isAllDay(eventDuration) ? undefined : option.startTime,
+      })),
+      status: submitStatusRef.current,
+      creatorStatuses: validTimeOptions.map(option => option.availability),
+    });
+  };
+
+  // The server generates the slots in the same order as generateGridSlots
+  const submitGrid = (data: z.infer<typeof formSchema>) => {
+    const parsed = gridConfigSchema.safeParse(gridConfig);
+    if (!parsed.success) {
+      const errors: Partial<Record<keyof GridConfig, string>> = {};
+      for (const issue of parsed.error.issues) {
+        errors[issue.path[0] as keyof GridConfig] ??= issue.message;
+      }
+      setGridErrors(errors);
+      return;
+    }
+    setGridErrors({});
 
     createEventMutation.mutate({
-      event: data,
-      timeOptions: timeOptionsWithEndTime,
+      event: { ...data, kind, gridConfig: parsed.data, duration: { unit: "minutes", value: parsed.data.slotMinutes } },
+      timeOptions: [],
+      status: submitStatusRef.current,
+      creatorStatuses: gridSlots.map((_, index) => gridAvailability[index] ?? "unavailable"),
     });
   };
 
@@ -255,6 +372,105 @@ export default function CreateEvent() {
 
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {(templates.length > 0 || starter) && (
+                  <div className="bg-neutral-50 rounded-lg p-4 space-y-3">
+                    {templates.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <label className="text-sm font-medium text-gray-700">Start from a template</label>
+                        <Select
+                          value=""
+                          onValueChange={(shareId) => {
+                            const template = templates.find(t => t.shareId === shareId);
+                            if (template) startFromTemplate(template);
+                          }}
+                        >
+                          <SelectTrigger className="w-72 bg-white">
+                            <SelectValue placeholder="Choose a saved format" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {templates.map(template => (
+                              <SelectItem key={template.shareId} value={template.shareId}>{template.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    {starter && (
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                        <Copy className="h-4 w-4" />
+                        <span>Based on {starter.label}.</span>
+                        {(starter.pattern.startWeekday !== null) && (
+                          <>
+                            <span>First day:</span>
+                            <Input
+                              type="date"
+                              value={starterStart}
+                              onChange={(e) => {
+                                setStarterStart(e.target.value);
+                                if (e.target.value) layOutPattern(starter.pattern, e.target.value);
+                              }}
+                              className="w-44 bg-white"
+                            />
+                          </>
+                        )}
+                        {starter.template && (
+                          <>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => copyTemplateLink(starter.template!.shareId)}>
+                              <Link2 className="mr-2 h-4 w-4" />
+                              Copy Template Link
+                            </Button>
+                            {savedTemplateShareIds.includes(starter.template.shareId) && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => setDeletingTemplate(true)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete Template
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Event Type</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <Button
+                      type="button"
+                      variant={kind === "poll" ? "default" : "outline"}
+                      className="h-auto py-3 flex flex-col items-start"
+                      onClick={() => setKind("poll")}
+                    >
+                      <span className="font-medium">Specific times</span>
+                      <span className="text-xs font-normal opacity-80">Propose a few dates and times to vote on</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={kind === "grid" ? "default" : "outline"}
+                      className="h-auto py-3 flex flex-col items-start"
+                      onClick={() => setKind("grid")}
+                    >
+                      <span className="font-medium">Availability grid</span>
+                      <span className="text-xs font-normal opacity-80">Everyone paints when they're free across a date range</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={kind === "weekly" ? "default" : "outline"}
+                      className="h-auto py-3 flex flex-col items-start"
+                      onClick={() => setKind("weekly")}
+                    >
+                      <span className="font-medium">Days of the week</span>
+                      <span className="text-xs font-normal opacity-80">Find a regular weekly slot, like Tuesdays at 7pm</span>
+                    </Button>
+                  </div>
+                </div>
+
                 <div className="grid md:grid-cols-2 gap-6">
                   <FormField
                     control={form.control}
@@ -270,38 +486,21 @@ export default function CreateEvent() {
                     )}
                   />
                   
-                  <FormField
-                    control={form.control}
-                    name="duration"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Duration</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  {kind !== "grid" && (
+                    <FormField
+                      control={form.control}
+                      name="duration"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Duration</FormLabel>
                           <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select duration" />
-                            </SelectTrigger>
+                            <DurationPicker value={field.value} onChange={field.onChange} />
                           </FormControl>
-                          <SelectContent>
-                            <SelectItem value="30 minutes">30 minutes</SelectItem>
-                            <SelectItem value="1 hour">1 hour</SelectItem>
-                            <SelectItem value="1.5 hours">1.5 hours</SelectItem>
-                            <SelectItem value="2 hours">2 hours</SelectItem>
-                            <SelectItem value="3 hours">3 hours</SelectItem>
-                            <SelectItem value="4 hours">4 hours</SelectItem>
-                            <SelectItem value="5 hours">5 hours</SelectItem>
-                            <SelectItem value="6 hours">6 hours</SelectItem>
-                            <SelectItem value="All day">All day</SelectItem>
-                            <SelectItem value="2 days">2 days</SelectItem>
-                            <SelectItem value="3 days">3 days</SelectItem>
-                            <SelectItem value="4 days">4 days</SelectItem>
-                            <SelectItem value="A week">A week</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                 </div>
 
                 <FormField
@@ -336,99 +535,195 @@ export default function CreateEvent() {
                   )}
                 />
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-4">Propose Date & Time Options</label>
-                  <div className="bg-neutral-50 rounded-lg p-4 space-y-3">
-                    {timeOptions.map((option, index) => (
-                      <div key={index} className="flex items-center justify-between bg-white rounded-lg p-4 border border-neutral-100">
-                        <div className="flex items-center space-x-4 flex-1">
-                          <div className="flex flex-col">
-                            <label className="text-sm text-gray-600 mb-1">Date</label>
-                            <Input
-                              type="date"
-                              value={option.date}
-                              onChange={(e) => updateTimeOption(index, "date", e.target.value)}
-                              className="border border-neutral-100"
-                            />
-                          </div>
-                          {isMultiDay(form.watch("duration")) ? (
-                            <div className="flex flex-col">
-                              <label className="text-sm text-gray-600 mb-1">End Date</label>
-                              <div className="px-3 py-2 bg-gray-50 border border-neutral-100 rounded-md text-gray-700">
-                                {option.date ? calculateEndDate(option.date, form.watch("duration")) : "Select start date"}
-                              </div>
-                            </div>
-                          ) : (
-                            <>
-                              <div className="flex flex-col">
-                                <label className="text-sm text-gray-600 mb-1">Start Time</label>
-                                <TimePicker
-                                  value={option.startTime}
-                                  onChange={(value) => updateTimeOption(index, "startTime", value)}
-                                  placeholder="Select start time"
-                                />
-                              </div>
-                              {option.startTime && form.watch("duration") && (
+                <FormField
+                  control={form.control}
+                  name="timeZone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time Zone</FormLabel>
+                      <FormControl>
+                        <TimeZoneSelect value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="responseDeadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Response Deadline (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" className="max-w-xs" {...field} />
+                      </FormControl>
+                      <p className="text-sm text-gray-500">Responses close automatically at this time, in your own time zone.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {kind === "grid" ? (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-4">Grid Dates & Daily Window</label>
+                      <div className="bg-neutral-50 rounded-lg p-4">
+                        <GridConfigFields value={gridConfig} onChange={updateGridConfig} errors={gridErrors} />
+                      </div>
+                    </div>
+                    {gridSlots.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Your Availability</label>
+                        <div className="space-y-3">
+                          <PaintStatusPicker value={paintStatus} onChange={setPaintStatus} />
+                          <AvailabilityGrid
+                            cells={gridSlots.map((slot, index) => ({ id: index, date: slot.date, startTime: slot.startTime }))}
+                            value={gridAvailability}
+                            onChange={setGridAvailability}
+                            paintStatus={paintStatus}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-4">
+                      {kind === "weekly" ? "Propose Weekday & Time Options" : "Propose Date & Time Options"}
+                    </label>
+                    <div className="bg-neutral-50 rounded-lg p-4 space-y-3">
+                      {timeOptions.map((option, index) => (
+                        <div key={index}>
+                          <div className="flex items-center justify-between bg-white rounded-lg p-4 border border-neutral-100">
+                            <div className="flex items-center space-x-4 flex-1">
+                              {kind === "weekly" ? (
+                                <div className="flex flex-col">
+                                  <label className="text-sm text-gray-600 mb-1">Weekday</label>
+                                  <Select value={option.weekday} onValueChange={(value) => updateTimeOption(index, "weekday", value)}>
+                                    <SelectTrigger className="w-40 border border-neutral-100">
+                                      <SelectValue placeholder="Pick a day" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {weekdayNames.map((name, weekday) => (
+                                        <SelectItem key={weekday} value={String(weekday)}>{name}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              ) : (
                                 <div className="flex flex-col">
-                                  <label className="text-sm text-gray-600 mb-1">End Time</label>
+                                  <label className="text-sm text-gray-600 mb-1">Date</label>
+                                  <Input
+                                    type="date"
+                                    value={option.date}
+                                    onChange={(e) => updateTimeOption(index, "date", e.target.value)}
+                                    className="border border-neutral-100"
+                                  />
+                                </div>
+                              )}
+                              {duration && isMultiDay(duration) ? (
+                                <div className="flex flex-col">
+                                  <label className="text-sm text-gray-600 mb-1">End Date</label>
                                   <div className="px-3 py-2 bg-gray-50 border border-neutral-100 rounded-md text-gray-700">
-                                    {formatTime(calculateEndTime(option.startTime, form.watch("duration")))}
+                                    {option.date ? formatShortDate(calculateEndDate(option.date, "", duration)) : "Select start date"}
                                   </div>
                                 </div>
+                              ) : duration && isAllDay(duration) ? (
+                                <div className="flex flex-col">
+                                  <label className="text-sm text-gray-600 mb-1">Time</label>
+                                  <div className="px-3 py-2 bg-gray-50 border border-neutral-100 rounded-md text-gray-700">
+                                    All day
+                                  </div>
+                                </div>
+                              ) : (
+                                <>
+                                  <div className="flex flex-col">
+                                    <label className="text-sm text-gray-600 mb-1">Start Time</label>
+                                    <TimePicker
+                                      value={option.startTime}
+                                      onChange={(value) => updateTimeOption(index, "startTime", value)}
+                                      placeholder="Select start time"
+                                    />
+                                  </div>
+                                  {option.startTime && duration && (
+                                    <div className="flex flex-col">
+                                      <label className="text-sm text-gray-600 mb-1">End Time</label>
+                                      <div className="px-3 py-2 bg-gray-50 border border-neutral-100 rounded-md text-gray-700">
+                                        {formatTime(calculateEndTime(option.startTime, duration))}
+                                      </div>
+                                    </div>
+                                  )}
+                                </>
                               )}
-                            </>
-                          )}
-                          <div className="flex flex-col">
-                            <label className="text-sm text-gray-600 mb-1">Your Availability</label>
-                            <Select
-                              value={option.availability}
-                              onValueChange={(value) => updateTimeOptionAvailability(index, value as "available" | "maybe" | "unavailable")}
-                            >
-                              <SelectTrigger className="w-40">
-                                <SelectValue placeholder="Your Availability" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="available">Available</SelectItem>
-                                <SelectItem value="maybe">Maybe</SelectItem>
-                                <SelectItem value="unavailable">Not Available</SelectItem>
-                              </SelectContent>
-                            </Select>
+                              <div className="flex flex-col">
+                                <label className="text-sm text-gray-600 mb-1">Your Availability</label>
+                                <Select
+                                  value={option.availability}
+                                  onValueChange={(value) => updateTimeOptionAvailability(index, value as "available" | "maybe" | "unavailable")}
+                                >
+                                  <SelectTrigger className="w-40">
+                                    <SelectValue placeholder="Your Availability" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="available">Available</SelectItem>
+                                    <SelectItem value="maybe">Maybe</SelectItem>
+                                    <SelectItem value="unavailable">Not Available</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            </div>
+                            {timeOptions.length > 1 && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeTimeOption(index)}
+                                className="text-red-500 hover:bg-red-50 ml-4"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
+                          {timeOptionErrors[index] && (
+                            <p className="text-sm font-medium text-destructive mt-1 px-1">{timeOptionErrors[index]}</p>
+                          )}
                         </div>
-                        {timeOptions.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeTimeOption(index)}
-                            className="text-red-500 hover:bg-red-50 ml-4"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        )}
-                      </div>
-                    ))}
+                      ))}
                     
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={addTimeOption}
-                      className="w-full border-2 border-dashed border-neutral-100 py-4 text-gray-500 hover:border-primary hover:text-primary"
-                    >
-                      <Plus className="mr-2 h-4 w-4" />
-                      Add Another Time Option
-                    </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={addTimeOption}
+                        className="w-full border-2 border-dashed border-neutral-100 py-4 text-gray-500 hover:border-primary hover:text-primary"
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Another Time Option
+                      </Button>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 <div className="flex justify-end space-x-4">
                   <Button type="button" variant="outline" onClick={() => setLocation("/")}>
                     Cancel
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={createEventMutation.isPending}
+                    onClick={() => {
+                      submitStatusRef.current = "draft";
+                      form.handleSubmit(onSubmit)();
+                    }}
+                  >
+                    Save as Draft
+                  </Button>
                   <Button 
                     type="submit" 
                     className="bg-primary hover:bg-blue-700"
                     disabled={createEventMutation.isPending}
+                    onClick={() => { submitStatusRef.current = "open"; }}
                   >
                     <Rocket className="mr-2 h-4 w-4" />
                     {createEventMutation.isPending ? "Creating..." : "Create Event"}
@@ -440,6 +735,18 @@ export default function CreateEvent() {
         </Card>
       </main>
 
+      {starter?.template && (
+        <DeleteTemplateDialog
+          template={starter.template}
+          open={deletingTemplate}
+          onOpenChange={setDeletingTemplate}
+          onDeleted={() => {
+            setSavedTemplateShareIds(getSavedTemplateShareIds());
+            setStarter(current => current && { ...current, template: undefined });
+          }}
+        />
+      )}
+
       <Footer />
     </div>
   );
@@ -15,10 +15,18 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TimePicker } from "@/components/ui/time-picker";
+import { DurationPicker } from "@/components/duration-picker";
+import { GridConfigFields } from "@/components/grid-config-fields";
+import { TimeZoneSelect } from "@/components/time-zone-select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { formatDate, formatTime } from "@/lib/utils";
+import { apiRequest, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { adminHeaders, getAdminToken } from "@/lib/event-tokens";
+import { formatDate, formatTime, toDateTimeLocal } from "@/lib/utils";
 import type { EventWithDetails } from "@shared/schema";
+import { durationSchema, calculateEndDate, formatShortDate, isAllDay, isMultiDay } from "@shared/duration";
+import { getBrowserTimeZone } from "@shared/time-zone";
+import { gridConfigSchema, type GridConfig } from "@shared/grid";
+import { weekdayNames } from "@shared/weekday";
 
 interface EditEventProps {
   shareId: string;
@@ -27,18 +35,22 @@ interface EditEventProps {
 type TimeOption = {
   id?: number;
   date: string;
+  weekday: string; // used instead of the date for weekday polls
   startTime: string;
 };
 
 const editEventSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  description: z.string().min(1, "Description is required"),
-  duration: z.string().min(1, "Duration is required"),
+  description: z.string().optional(),
+  duration: durationSchema.optional().refine(duration => duration !== undefined, "Duration is required"),
+  timeZone: z.string().min(1, "Time zone is required"),
+  responseDeadline: z.string(), // datetime-local value in the organizer's own zone, "" for none
   timeOptions: z.array(z.object({
     id: z.number().optional(),
-    date: z.string().min(1, "Date is required"),
+    date: z.string(),
+    weekday: z.string(),
     startTime: z.string().min(1, "Start time is required"),
-  })).min(1, "At least one time option is required"),
+  })), // grid events edit their grid settings instead
 });
 
 export default function EditEvent({ shareId }: EditEventProps) {
@@ -46,6 +58,8 @@ export default function EditEvent({ shareId }: EditEventProps) {
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
   const [timeOptions, setTimeOptions] = useState<TimeOption[]>([]);
+  const [gridConfig, setGridConfig] = useState<GridConfig>();
+  const [gridErrors, setGridErrors] = useState<Partial<Record<keyof GridConfig, string>>>({});
 
   const { data: event, isLoading, error } = useQuery<EventWithDetails>({
     queryKey: [`/api/events/${shareId}`],
@@ -56,7 +70,9 @@ export default function EditEvent({ shareId }: EditEventProps) {
     defaultValues: {
       title: "",
       description: "",
-      duration: "",
+      duration: undefined,
+      timeZone: getBrowserTimeZone(),
+      responseDeadline: "",
       timeOptions: [],
     },
   });
@@ -68,23 +84,32 @@ export default function EditEvent({ shareId }: EditEventProps) {
         title: event.title,
         description: event.description ?? undefined,
         duration: event.duration,
-        timeOptions: event.timeOptions.map(option => ({
+        timeZone: event.timeZone,
+        responseDeadline: event.responseDeadline ? toDateTimeLocal(event.responseDeadline) : "",
+        timeOptions: event.kind === "grid" ? [] : event.timeOptions.map(option => ({
           id: option.id,
-          date: option.date,
+          date: option.date ?? "",
+          weekday: option.weekday?.toString() ?? "",
           startTime: option.startTime,
         })),
       });
+      setGridConfig(event.gridConfig ?? undefined);
+      if (event.kind === "grid") return;
       setTimeOptions(event.timeOptions.map(option => ({
         id: option.id,
-        date: option.date,
+        date: option.date ?? "",
+        weekday: option.weekday?.toString() ?? "",
         startTime: option.startTime,
       })));
     }
   }, [event, form]);
 
   const updateEventMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof editEventSchema>) => {
-      const response = await apiRequest("PUT", `/api/events/${shareId}`, data);
+    mutationFn: async (data: {
+      event: Omit<z.infer<typeof editEventSchema>, "timeOptions" | "responseDeadline"> & { gridConfig?: GridConfig; responseDeadline: string | null };
+      timeOptions: Array<{ id?: number; date?: string; weekday?: number; startTime: string }>;
+    }) => {
+      const response = await apiRequest("PUT", `/api/events/${shareId}`, data, adminHeaders(shareId));
       return response.json();
     },
     onSuccess: () => {
@@ -95,56 +120,35 @@ export default function EditEvent({ shareId }: EditEventProps) {
       queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
       setLocation(`/event/${shareId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      for (const [field, message] of Object.entries(getFieldErrors(error, "event."))) {
+        if (field === "title" || field === "description" || field === "duration" || field === "timeZone" || field === "responseDeadline") {
+          form.setError(field, { message });
+        }
+      }
+      const gridFieldErrors: Partial<Record<keyof GridConfig, string>> = {};
+      for (const [field, message] of Object.entries(getFieldErrors(error, "event.gridConfig."))) {
+        gridFieldErrors[field as keyof GridConfig] = message;
+      }
+      setGridErrors(gridFieldErrors);
       toast({
         title: "Error",
-        description: "Failed to update event. Please try again.",
+        description: getErrorMessage(error, "Failed to update event. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  // Helper function to calculate end date for multi-day events
-  const calculateEndDate = (startDate: string, duration: string): string => {
-    if (!startDate) return "";
-    
-    // Parse the date string properly to avoid timezone issues
-    const [year, month, day] = startDate.split('-').map(Number);
-    const date = new Date(year, month - 1, day); // month is 0-indexed
-    let daysToAdd = 0;
-    
-    switch (duration) {
-      case "2 days":
-        daysToAdd = 1; // Day 1 + Day 2 = 1 day later
-        break;
-      case "3 days":
-        daysToAdd = 2; // Day 1 + Day 2 + Day 3 = 2 days later
-        break;
-      case "4 days":
-        daysToAdd = 3; // Day 1 + Day 2 + Day 3 + Day 4 = 3 days later
-        break;
-      case "A week":
-        daysToAdd = 7; // Start day + 7 more days
-        break;
-      default:
-        return "";
-    }
-    
-    date.setDate(date.getDate() + daysToAdd);
-    return date.toLocaleDateString('en-US');
-  };
-
-  // Helper function to check if duration is multi-day
-  const isMultiDay = (duration: string): boolean => {
-    return ["2 days", "3 days", "4 days", "A week"].includes(duration);
-  };
-
   const addTimeOption = () => {
     const lastOption = timeOptions[timeOptions.length - 1];
     let newDate = "";
+    let newWeekday = "";
     let newTime = "09:00";
 
-    if (lastOption) {
+    if (event?.kind === "weekly") {
+      newWeekday = lastOption?.weekday ? String((parseInt(lastOption.weekday, 10) + 1) % 7) : "1";
+      newTime = lastOption?.startTime ?? newTime;
+    } else if (lastOption) {
       const lastDate = new Date(lastOption.date);
       lastDate.setDate(lastDate.getDate() + 1);
       newDate = lastDate.toISOString().split('T')[0];
@@ -157,6 +161,7 @@ export default function EditEvent({ shareId }: EditEventProps) {
 
     const newTimeOption: TimeOption = {
       date: newDate,
+      weekday: newWeekday,
       startTime: newTime,
     };
 
@@ -179,8 +184,58 @@ export default function EditEvent({ shareId }: EditEventProps) {
     form.setValue("timeOptions", updatedTimeOptions);
   };
 
+  const duration = form.watch("duration");
+
   const onSubmit = (data: z.infer<typeof editEventSchema>) => {
-    updateEventMutation.mutate(data);
+    const { timeOptions: submittedTimeOptions, responseDeadline, ...details } = data;
+    // The unchanged deadline is sent back as stored, so it isn't re-checked against the clock
+    const eventDetails = {
+      ...details,
+      responseDeadline: !responseDeadline
+        ? null
+        : event?.responseDeadline && toDateTimeLocal(event.responseDeadline) === responseDeadline
+          ? new Date(event.responseDeadline).toISOString()
+          : new Date(responseDeadline).toISOString(),
+    };
+
+    // The server regenerates grid slots, keeping answers for slots that stay in the grid
+    if (event?.kind === "grid") {
+      const parsed = gridConfigSchema.safeParse(gridConfig);
+      if (!parsed.success) {
+        const errors: Partial<Record<keyof GridConfig, string>> = {};
+        for (const issue of parsed.error.issues) {
+          errors[issue.path[0] as keyof GridConfig] ??= issue.message;
+        }
+        setGridErrors(errors);
+        return;
+      }
+      setGridErrors({});
+      updateEventMutation.mutate({
+        event: { ...eventDetails, gridConfig: parsed.data, duration: { unit: "minutes", value: parsed.data.slotMinutes } },
+        timeOptions: [],
+      });
+      return;
+    }
+
+    const isWeekly = event?.kind === "weekly";
+    if (submittedTimeOptions.some(option => !(isWeekly ? option.weekday : option.date))) {
+      toast({
+        title: "Error",
+        description: isWeekly ? "Please pick a weekday for every option." : "Please pick a date for every option.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The server recalculates end times, so rescheduled options and duration changes stay consistent
+    updateEventMutation.mutate({
+      event: eventDetails,
+      timeOptions: submittedTimeOptions.map(({ id, date, weekday, startTime }) => ({
+        id,
+        ...(isWeekly ? { weekday: parseInt(weekday, 10) } : { date }),
+        startTime,
+      })),
+    });
   };
 
   if (isLoading) {
@@ -198,6 +253,25 @@ export default function EditEvent({ shareId }: EditEventProps) {
     );
   }
 
+  if (!getAdminToken(shareId)) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <Card className="w-full max-w-md mx-4">
+            <CardContent className="pt-6 text-center">
+              <p className="text-red-600 mb-4">Only the organizer can edit this event. Open it from your private management link first.</p>
+              <Link href={`/event/${shareId}`}>
+                <Button>Back to Event</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   if (error || !event) {
     return (
       <div className="min-h-screen flex flex-col">
@@ -252,38 +326,21 @@ export default function EditEvent({ shareId }: EditEventProps) {
                     )}
                   />
 
-                  <FormField
-                    control={form.control}
-                    name="duration"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Duration</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                  {event?.kind !== "grid" && (
+                    <FormField
+                      control={form.control}
+                      name="duration"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Duration</FormLabel>
                           <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select duration" />
-                            </SelectTrigger>
+                            <DurationPicker value={field.value} onChange={field.onChange} />
                           </FormControl>
-                          <SelectContent>
-                            <SelectItem value="30 minutes">30 minutes</SelectItem>
-                            <SelectItem value="1 hour">1 hour</SelectItem>
-                            <SelectItem value="1.5 hours">1.5 hours</SelectItem>
-                            <SelectItem value="2 hours">2 hours</SelectItem>
-                            <SelectItem value="3 hours">3 hours</SelectItem>
-                            <SelectItem value="4 hours">4 hours</SelectItem>
-                            <SelectItem value="5 hours">5 hours</SelectItem>
-                            <SelectItem value="6 hours">6 hours</SelectItem>
-                            <SelectItem value="All day">All day</SelectItem>
-                            <SelectItem value="2 days">2 days</SelectItem>
-                            <SelectItem value="3 days">3 days</SelectItem>
-                            <SelectItem value="4 days">4 days</SelectItem>
-                            <SelectItem value="A week">A week</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                 </div>
 
                 <FormField
@@ -304,68 +361,137 @@ export default function EditEvent({ shareId }: EditEventProps) {
                   )}
                 />
 
-                <div>
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-medium">Time Options</h3>
-                    <Button type="button" onClick={addTimeOption} variant="outline" size="sm">
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Time
-                    </Button>
+                <FormField
+                  control={form.control}
+                  name="timeZone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time Zone</FormLabel>
+                      <FormControl>
+                        <TimeZoneSelect value={field.value} onChange={field.onChange} />
+                      </FormControl>
+                      {event && field.value !== event.timeZone && duration && !isAllDay(duration) && (
+                        <p className="text-sm text-amber-600">
+                          Changing the time zone moves every option, so existing responses will be cleared.
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="responseDeadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Response Deadline (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" className="max-w-xs" {...field} />
+                      </FormControl>
+                      <p className="text-sm text-gray-500">Leave empty to keep collecting responses until you confirm a time.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {event?.kind === "grid" && gridConfig ? (
+                  <div>
+                    <h3 className="text-lg font-medium mb-1">Grid Dates & Daily Window</h3>
+                    <p className="text-sm text-gray-600 mb-4">Answers are kept for slots that stay in the grid; slots you remove lose theirs.</p>
+                    <GridConfigFields value={gridConfig} onChange={setGridConfig} errors={gridErrors} />
                   </div>
+                ) : (
+                  <div>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium">Time Options</h3>
+                      <Button type="button" onClick={addTimeOption} variant="outline" size="sm">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Time
+                      </Button>
+                    </div>
 
-                  <div className="space-y-4">
-                    {timeOptions.map((option, index) => (
-                      <div key={index} className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg">
-                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                              Date
-                            </label>
-                            <Input
-                              type="date"
-                              value={option.date}
-                              onChange={(e) => updateTimeOption(index, "date", e.target.value)}
-                              className="w-full"
-                            />
-                          </div>
+                    <div className="space-y-4">
+                      {timeOptions.map((option, index) => (
+                        <div key={index} className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg">
+                          <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {event?.kind === "weekly" ? (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Weekday
+                                </label>
+                                <Select value={option.weekday} onValueChange={(value) => updateTimeOption(index, "weekday", value)}>
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue placeholder="Pick a day" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {weekdayNames.map((name, weekday) => (
+                                      <SelectItem key={weekday} value={String(weekday)}>{name}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ) : (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Date
+                                </label>
+                                <Input
+                                  type="date"
+                                  value={option.date}
+                                  onChange={(e) => updateTimeOption(index, "date", e.target.value)}
+                                  className="w-full"
+                                />
+                              </div>
+                            )}
                           
-                          {isMultiDay(form.watch("duration")) ? (
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700 mb-1">
-                                End Date
-                              </label>
-                              <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
-                                {option.date ? calculateEndDate(option.date, form.watch("duration")) : "Select start date"}
+                            {duration && isMultiDay(duration) ? (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  End Date
+                                </label>
+                                <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
+                                  {option.date ? formatShortDate(calculateEndDate(option.date, "", duration)) : "Select start date"}
+                                </div>
+                              </div>
+                            ) : duration && isAllDay(duration) ? (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Time
+                                </label>
+                                <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
+                                  All day
+                                </div>
+                              </div>
+                            ) : (
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                  Start Time
+                                </label>
+                                <TimePicker
+                                  value={option.startTime}
+                                  onChange={(value) => updateTimeOption(index, "startTime", value)}
+                                />
                               </div>
-                            </div>
-                          ) : (
-                            <div>
-                              <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Start Time
-                              </label>
-                              <TimePicker
-                                value={option.startTime}
-                                onChange={(value) => updateTimeOption(index, "startTime", value)}
-                              />
-                            </div>
+                            )}
+                          </div>
+
+                          {timeOptions.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeTimeOption(index)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
                           )}
                         </div>
-
-                        {timeOptions.length > 1 && (
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeTimeOption(index)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        )}
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
+                )}
 
                 <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
                   <Link href={`/event/${shareId}`}>
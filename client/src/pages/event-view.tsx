@@ -1,6 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
-import { Users, Edit, Share2, Check, Star, Copy, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Users, Edit, Share2, Check, Star, Copy, X, CalendarCheck, KeyRound, CopyPlus, BookmarkPlus, Trash2 } from "lucide-react";
 
 import Header from "@/components/header";
 import Footer from "@/components/footer";
@@ -8,9 +9,28 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AvailabilityHeatmap } from "@/components/availability-heatmap";
+import { OptionDate } from "@/components/option-date";
+import { RecurrenceDialog } from "@/components/recurrence-dialog";
+import { SeriesPanel } from "@/components/series-panel";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
+import { DeadlinePanel } from "@/components/deadline-panel";
+import { CancellationNotice, EventStatusBadge, EventStatusControls } from "@/components/event-status";
+import { ResponsesPanel } from "@/components/responses-panel";
+import { DeleteEventDialog } from "@/components/delete-event-dialog";
+import { AddToCalendarButton } from "@/components/add-to-calendar-button";
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import { ExportResultsButton } from "@/components/export-results-button";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, formatTime, getBestTimeSlotIds } from "@/lib/utils";
-import type { EventWithDetails } from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { adminHeaders, getAdminToken, getManagementUrl, saveAdminToken } from "@/lib/event-tokens";
+import { formatOptionDay, formatTime } from "@/lib/utils";
+import { calculateSummaryStats, getBestTimeSlotIds, pickBestTimeSlotId } from "@shared/scheduling";
+import { formatDateRange, formatDuration, isAllDay, type Duration } from "@shared/duration";
+import { convertTimeOption, formatTimeZoneAbbreviation, getBrowserTimeZone } from "@shared/time-zone";
+import { formatRecurrence, getOptionDate, weekdayNames, type Recurrence } from "@shared/weekday";
+import { canChangeStatus } from "@shared/status";
+import type { EventWithDetails, TimeOption } from "@shared/schema";
 
 interface EventViewProps {
   shareId: string;
@@ -18,78 +38,40 @@ interface EventViewProps {
 
 export default function EventView({ shareId }: EventViewProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const search = useSearch();
+  const [adminToken, setAdminToken] = useState(() => getAdminToken(shareId));
+  const [selectedSlotId, setSelectedSlotId] = useState<number>();
+  // Weekday option waiting for the organizer to decide on a recurring schedule
+  const [schedulingOption, setSchedulingOption] = useState<TimeOption>();
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const isOrganizer = adminToken !== null;
 
-  // Helper function to check if duration is multi-day
-  const isMultiDay = (duration: string): boolean => {
-    return ["2 days", "3 days", "4 days", "A week"].includes(duration);
-  };
-
-  // Helper function to format date range for multi-day events
-  const formatDateRange = (startDate: string, duration: string): string => {
-    // Parse start date properly
-    const [year, month, day] = startDate.split('-').map(Number);
-    const startDateObj = new Date(year, month - 1, day);
-    const startFormatted = startDateObj.toLocaleDateString('en-US', { 
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric' 
-    });
-    
-    // Calculate end date
-    let daysToAdd = 0;
-    switch (duration) {
-      case "2 days": daysToAdd = 1; break;
-      case "3 days": daysToAdd = 2; break;
-      case "4 days": daysToAdd = 3; break;
-      case "A week": daysToAdd = 7; break;
+  // Pick up the admin token from a private management link
+  useEffect(() => {
+    const tokenFromLink = new URLSearchParams(search).get("admin");
+    if (tokenFromLink) {
+      saveAdminToken(shareId, tokenFromLink);
+      setAdminToken(tokenFromLink);
+      // Keep the secret out of the address bar once it's stored
+      window.history.replaceState(null, "", `/event/${shareId}`);
     }
-    
-    const endDateObj = new Date(year, month - 1, day + daysToAdd);
-    const endFormatted = endDateObj.toLocaleDateString('en-US', { 
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric' 
-    });
-    
-    return `${startFormatted} - ${endFormatted}`;
-  };
+  }, [search, shareId]);
+
+  const viewerTimeZone = getBrowserTimeZone();
 
-  // Helper function to format option display text for summary table
-  const formatOptionForTable = (option: any, duration: string): string => {
-    if (isMultiDay(duration)) {
-      return formatDateRange(option.date, duration);
+  // Helper function to format option display text for summary table, in the given zone
+  const formatOptionForTable = (option: TimeOption, duration: Duration, eventTimeZone: string, timeZone: string): string => {
+    const isWeekdayOption = option.weekday !== null;
+    if (isAllDay(duration)) {
+      return isWeekdayOption ? `${weekdayNames[option.weekday!]}s` : formatDateRange(option.date!, duration);
     } else {
-      const dateInfo = formatDate(option.date);
-      return `${dateInfo.dayName} ${dateInfo.month} ${dateInfo.dayNumber} - ${formatTime(option.startTime)} to ${formatTime(option.endTime)}`;
+      const shown = convertTimeOption(option, duration, eventTimeZone, timeZone);
+      return `${formatOptionDay(shown.date, shown.weekday, isWeekdayOption)} - ${formatTime(shown.startTime)} to ${formatTime(shown.endTime)} ${formatTimeZoneAbbreviation(timeZone, shown.date)}`;
     }
   };
 
-  // Helper function to calculate summary statistics
-  const calculateSummaryStats = (timeOptions: any[]) => {
-    return timeOptions.map(option => {
-      const available = option.participants.filter((p: any) => p.status === "available").length;
-      const maybe = option.participants.filter((p: any) => p.status === "maybe").length;
-      const unavailable = option.participants.filter((p: any) => p.status === "unavailable").length;
-      const total = available + maybe + unavailable;
-      
-      return {
-        ...option,
-        stats: {
-          available,
-          maybe,
-          unavailable,
-          total
-        }
-      };
-    }).sort((a, b) => {
-      // Sort by available participants first, then by maybe responses
-      if (b.stats.available !== a.stats.available) {
-        return b.stats.available - a.stats.available;
-      }
-      return b.stats.maybe - a.stats.maybe;
-    });
-  };
-
   // Helper function to scroll to specific time option
   const scrollToTimeOption = (optionId: number) => {
     const element = document.getElementById(`time-option-${optionId}`);
@@ -104,6 +86,37 @@ export default function EventView({ shareId }: EventViewProps) {
     staleTime: 0, // Always consider data stale to ensure fresh fetches
   });
 
+  const confirmTimeMutation = useMutation({
+    mutationFn: async ({ timeOptionId, recurrence }: { timeOptionId?: number; recurrence?: Recurrence }) => {
+      const response = await apiRequest("POST", `/api/events/${shareId}/confirm`, { timeOptionId, recurrence }, adminHeaders(shareId));
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Time Confirmed!",
+        description: "The final time has been locked in for everyone.",
+      });
+      setSchedulingOption(undefined);
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to confirm the time. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Weekday options can become a recurring schedule, so ask before confirming them
+  const chooseTimeOption = (option?: TimeOption) => {
+    if (option?.weekday != null) {
+      setSchedulingOption(option);
+    } else {
+      confirmTimeMutation.mutate({ timeOptionId: option?.id });
+    }
+  };
+
   const copyShareLink = () => {
     const url = `${window.location.origin}/participate/${shareId}`;
     navigator.clipboard.writeText(url);
@@ -113,6 +126,15 @@ export default function EventView({ shareId }: EventViewProps) {
     });
   };
 
+  const copyManagementLink = () => {
+    if (!adminToken) return;
+    navigator.clipboard.writeText(getManagementUrl(shareId, adminToken));
+    toast({
+      title: "Management Link Copied!",
+      description: "Keep it private - anyone with this link can manage the event.",
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex flex-col">
@@ -151,12 +173,69 @@ export default function EventView({ shareId }: EventViewProps) {
   const participateUrl = `${window.location.origin}/participate/${shareId}`;
   const summaryStats = calculateSummaryStats(event.timeOptions);
   const topOptions = summaryStats.slice(0, 5);
+  const confirmedOption = event.timeOptions.find(option => option.id === event.confirmedTimeOptionId);
+  const canConfirm = isOrganizer && !confirmedOption && canChangeStatus(event.status, "confirmed");
+  // Results are listed in the organizer's zone, with the viewer's own times alongside when they differ
+  const showViewerTimes = viewerTimeZone !== event.timeZone && !isAllDay(event.duration);
+  const selectedSlot = event.timeOptions.find(option => option.id === selectedSlotId);
 
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
       
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {confirmedOption && event.status !== "cancelled" && (
+          <Card className="shadow-lg mb-8 border-2 border-success">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <div className="w-10 h-10 bg-success rounded-lg flex items-center justify-center mr-3">
+                    <CalendarCheck className="text-white h-5 w-5" />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-success">Scheduled</div>
+                    <h3 className="text-2xl font-semibold text-gray-900">{formatOptionForTable(confirmedOption, event.duration, event.timeZone, event.timeZone)}</h3>
+                    {showViewerTimes && (
+                      <div className="text-sm text-gray-600">
+                        Your time: {formatOptionForTable(confirmedOption, event.duration, event.timeZone, viewerTimeZone)}
+                      </div>
+                    )}
+                    {event.recurrence && (
+                      <div className="text-sm text-gray-600">{formatRecurrence(event.recurrence)}</div>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-medium">
+                    {confirmedOption.availabilityCount.available} available, {confirmedOption.availabilityCount.maybe} maybe
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    out of {confirmedOption.availabilityCount.total} responses
+                  </div>
+                  <div className="mt-3">
+                    <AddToCalendarButton shareId={shareId} size="sm" />
+                  </div>
+                </div>
+              </div>
+              {confirmedOption.participants.some(participant => participant.status !== "unavailable") && (
+                <div className="mt-4 pt-4 border-t border-neutral-100 flex flex-wrap gap-2">
+                  {confirmedOption.participants
+                    .filter(participant => participant.status !== "unavailable")
+                    .map(participant => (
+                      <Badge
+                        key={participant.id}
+                        variant="secondary"
+                        className={participant.status === "available" ? "bg-green-50 text-success" : "bg-yellow-50 text-yellow-700"}
+                      >
+                        {participant.name}
+                      </Badge>
+                    ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="shadow-lg mb-8">
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-6">
@@ -165,7 +244,10 @@ export default function EventView({ shareId }: EventViewProps) {
                   <Users className="text-white h-5 w-5" />
                 </div>
                 <div>
-                  <h3 className="text-2xl font-semibold text-gray-900">{event.title}</h3>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-2xl font-semibold text-gray-900">{event.title}</h3>
+                    <EventStatusBadge status={event.status} />
+                  </div>
                   {event.description && (
                     <p className="text-gray-600">{event.description}</p>
                   )}
@@ -173,10 +255,38 @@ export default function EventView({ shareId }: EventViewProps) {
               </div>
               <div className="text-right">
                 <div className="text-sm text-gray-500">Duration</div>
-                <div className="font-medium">{event.duration}</div>
+                <div className="font-medium">{formatDuration(event.duration)}</div>
+                {!isAllDay(event.duration) && (
+                  <>
+                    <div className="text-sm text-gray-500 mt-2">Organizer's time zone</div>
+                    <div className="font-medium">{event.timeZone.replace(/_/g, " ")}</div>
+                    {showViewerTimes && (
+                      <div className="text-xs text-gray-500">Your zone: {viewerTimeZone.replace(/_/g, " ")}</div>
+                    )}
+                  </>
+                )}
               </div>
             </div>
 
+            {event.status === "cancelled" && <CancellationNotice event={event} />}
+            {event.status === "draft" && (
+              <div className="rounded-lg p-4 mb-6 bg-gray-50 text-sm text-gray-900">
+                This event is a draft. Only you can add answers until you open it for responses.
+              </div>
+            )}
+            {event.status === "closed" && (
+              <div className="rounded-lg p-4 mb-6 bg-gray-50 text-sm text-gray-900">
+                Responses are closed. The results below are final unless the poll is reopened.
+              </div>
+            )}
+            {isOrganizer && (
+              <div className="mb-6">
+                <EventStatusControls event={event} />
+              </div>
+            )}
+
+            <DeadlinePanel event={event} isOrganizer={isOrganizer} />
+
             {/* Summary Table */}
             <div className="mb-6">
               <h4 className="text-lg font-semibold text-gray-900 mb-4">Summary of Top Options</h4>
@@ -196,16 +306,27 @@ export default function EventView({ shareId }: EventViewProps) {
                       <TableRow 
                         key={option.id} 
                         className="cursor-pointer hover:bg-gray-50 transition-colors"
-                        onClick={() => scrollToTimeOption(option.id)}
+                        onClick={() => event.kind === "grid" ? setSelectedSlotId(option.id) : scrollToTimeOption(option.id)}
                       >
                         <TableCell className="font-medium">
                           <div className="flex items-center">
-                            {bestTimeSlotIds.includes(option.id) && (
+                            {option.id === confirmedOption?.id ? (
+                              <Badge className="text-xs bg-success text-white mr-2">
+                                Confirmed
+                              </Badge>
+                            ) : !confirmedOption && bestTimeSlotIds.includes(option.id) && (
                               <Badge className="text-xs bg-success text-white mr-2">
                                 Recommended - Best Availability
                               </Badge>
                             )}
-                            <span>{formatOptionForTable(option, event.duration)}</span>
+                            <div>
+                              <div>{formatOptionForTable(option, event.duration, event.timeZone, event.timeZone)}</div>
+                              {showViewerTimes && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  Your time: {formatOptionForTable(option, event.duration, event.timeZone, viewerTimeZone)}
+                                </div>
+                              )}
+                            </div>
                           </div>
                         </TableCell>
                         <TableCell className="text-center font-medium text-success">
@@ -243,129 +364,282 @@ export default function EventView({ shareId }: EventViewProps) {
               </div>
             </div>
 
-            <div className="mb-6">
-              <h4 className="text-lg font-semibold text-gray-900 mb-4">All Proposed Options</h4>
+            {isOrganizer && adminToken && (
+              <div className="bg-amber-50 rounded-lg p-4 mb-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-amber-900">Your private management link (don't share this):</p>
+                    <p className="text-amber-700 font-mono text-sm break-all">{getManagementUrl(shareId, adminToken)}</p>
+                  </div>
+                  <Button
+                    onClick={copyManagementLink}
+                    variant="outline"
+                    className="ml-4 border-amber-300 text-amber-900 hover:bg-amber-100"
+                  >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Copy Link
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {event.kind === "grid" ? (
+              <div className="mb-6">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Group Availability</h4>
+                <AvailabilityHeatmap
+                  cells={event.timeOptions.map(option => ({
+                    id: option.id,
+                    date: getOptionDate(option),
+                    startTime: option.startTime,
+                    available: option.availabilityCount.available,
+                    maybe: option.availabilityCount.maybe,
+                  }))}
+                  participantCount={event.participantCount}
+                  selectedId={selectedSlot?.id}
+                  highlightedIds={confirmedOption ? [confirmedOption.id] : bestTimeSlotIds}
+                  onSelect={setSelectedSlotId}
+                />
+                {selectedSlot && (
+                  <div className="mt-4 border rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{formatOptionForTable(selectedSlot, event.duration, event.timeZone, event.timeZone)}</div>
+                        {showViewerTimes && (
+                          <div className="text-sm text-gray-600">
+                            Your time: {formatOptionForTable(selectedSlot, event.duration, event.timeZone, viewerTimeZone)}
+                          </div>
+                        )}
+                        <div className="text-sm text-gray-500">
+                          {selectedSlot.availabilityCount.available} available, {selectedSlot.availabilityCount.maybe} if need be, out of {selectedSlot.availabilityCount.total} responses
+                        </div>
+                      </div>
+                      {canConfirm && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => chooseTimeOption(selectedSlot)}
+                          disabled={confirmTimeMutation.isPending}
+                        >
+                          Choose this time
+                        </Button>
+                      )}
+                    </div>
+                    {selectedSlot.participants.some(participant => participant.status !== "unavailable") && (
+                      <div className="mt-3 pt-3 border-t border-neutral-100 flex flex-wrap gap-2">
+                        {selectedSlot.participants
+                          .filter(participant => participant.status !== "unavailable")
+                          .map(participant => (
+                            <Badge
+                              key={participant.id}
+                              variant="secondary"
+                              className={participant.status === "available" ? "bg-green-50 text-success" : "bg-yellow-50 text-yellow-700"}
+                            >
+                              {participant.name}
+                            </Badge>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="mb-6">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">All Proposed Options</h4>
               
-              <div className="space-y-3">
-                {event.timeOptions.map((option) => {
-                  const isBest = bestTimeSlotIds.includes(option.id);
+                <div className="space-y-3">
+                  {event.timeOptions.map((option) => {
+                    const isConfirmed = option.id === confirmedOption?.id;
+                    const isBest = confirmedOption ? isConfirmed : bestTimeSlotIds.includes(option.id);
                   
-                  return (
-                    <div 
-                      key={option.id} 
-                      id={`time-option-${option.id}`}
-                      className={`border rounded-lg p-4 hover:shadow-md transition-shadow ${
-                        isBest ? 'border-2 border-success bg-green-50' : 'border-neutral-100'
-                      }`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-4">
-                          {isBest && (
-                            <div className="w-6 h-6 bg-success rounded-full flex items-center justify-center">
-                              <Star className="text-white w-3 h-3" />
-                            </div>
-                          )}
-                          {isMultiDay(event.duration) ? (
-                            <div className="text-center">
-                              <div className="text-lg font-semibold text-gray-900">{formatDateRange(option.date, event.duration)}</div>
-                              <div className="text-sm text-gray-500">All Day</div>
-                            </div>
-                          ) : (
-                            <>
-                              <div className="text-center">
-                                <div className="text-lg font-semibold text-gray-900">{formatDate(option.date).dayName}</div>
-                                <div className={`text-2xl font-bold ${isBest ? 'text-success' : 'text-primary'}`}>
-                                  {formatDate(option.date).dayNumber}
-                                </div>
-                                <div className="text-sm text-gray-500">{formatDate(option.date).month}</div>
+                    return (
+                      <div 
+                        key={option.id} 
+                        id={`time-option-${option.id}`}
+                        className={`border rounded-lg p-4 hover:shadow-md transition-shadow ${
+                          isBest ? 'border-2 border-success bg-green-50' : 'border-neutral-100'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-4">
+                            {isBest && (
+                              <div className="w-6 h-6 bg-success rounded-full flex items-center justify-center">
+                                <Star className="text-white w-3 h-3" />
                               </div>
-                              <div>
-                                <div className="font-medium text-gray-900">{formatTime(option.startTime)} - {formatTime(option.endTime)}</div>
-                                <div className="text-sm text-gray-600">{event.duration} duration</div>
+                            )}
+                            {isAllDay(event.duration) ? (
+                              <div className="text-center">
+                                <div className="text-lg font-semibold text-gray-900">{formatOptionForTable(option, event.duration, event.timeZone, event.timeZone)}</div>
+                                <div className="text-sm text-gray-500">All Day</div>
                               </div>
-                            </>
-                          )}
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          {isBest && (
-                            <Badge className="text-sm bg-success text-white">
-                              Recommended - Best availability
-                            </Badge>
-                          )}
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center space-x-2 mb-2">
-                            <div className="w-8 h-2 bg-success rounded-full"></div>
-                            <span className="text-sm font-medium">
-                              {option.availabilityCount.available} available
-                            </span>
+                            ) : (
+                              <>
+                                <OptionDate
+                                  date={getOptionDate(option)}
+                                  weekday={option.weekday ?? 0}
+                                  isWeekdayOption={option.weekday !== null}
+                                  numberClassName={isBest ? 'text-success' : 'text-primary'}
+                                />
+                                <div>
+                                  <div className="font-medium text-gray-900">
+                                    {formatTime(option.startTime)} - {formatTime(option.endTime)} {formatTimeZoneAbbreviation(event.timeZone, getOptionDate(option))}
+                                  </div>
+                                  {showViewerTimes && (
+                                    <div className="text-sm text-gray-600">
+                                      Your time: {formatOptionForTable(option, event.duration, event.timeZone, viewerTimeZone)}
+                                    </div>
+                                  )}
+                                  <div className="text-sm text-gray-600">{formatDuration(event.duration)} duration</div>
+                                </div>
+                              </>
+                            )}
                           </div>
-                          <div className="text-xs text-gray-500">
-                            out of {option.availabilityCount.total} responses
+                          <div className="flex items-center space-x-2">
+                            {isConfirmed ? (
+                              <Badge className="text-sm bg-success text-white">
+                                Confirmed time
+                              </Badge>
+                            ) : isBest && (
+                              <Badge className="text-sm bg-success text-white">
+                                Recommended - Best availability
+                              </Badge>
+                            )}
+                            {canConfirm && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => chooseTimeOption(option)}
+                                disabled={confirmTimeMutation.isPending}
+                              >
+                                Choose this time
+                              </Button>
+                            )}
+                            {isOrganizer && !isConfirmed && (
+                              <AddToCalendarButton shareId={shareId} timeOptionId={option.id} label="Calendar file" variant="ghost" size="sm" />
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <div className="flex items-center space-x-2 mb-2">
+                              <div className="w-8 h-2 bg-success rounded-full"></div>
+                              <span className="text-sm font-medium">
+                                {option.availabilityCount.available} available
+                              </span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              out of {option.availabilityCount.total} responses
+                            </div>
                           </div>
                         </div>
-                      </div>
                       
-                      {option.participants.length > 0 && (
-                        <div className="mt-3 pt-3 border-t border-neutral-100">
-                          <div className="text-xs text-gray-500 mb-2 font-medium">Responses:</div>
-                          <div className="space-y-1">
-                            {option.participants.map((participant) => (
-                              <div key={participant.id} className="flex items-center justify-between">
-                                <span className="text-sm text-gray-700">{participant.name}</span>
-                                <div className="flex items-center">
-                                  {participant.status === "available" && (
-                                    <div className="flex items-center text-success">
-                                      <Check className="w-3 h-3 mr-1" />
-                                      <span className="text-xs font-medium">Available</span>
-                                    </div>
-                                  )}
-                                  {participant.status === "maybe" && (
-                                    <div className="flex items-center text-yellow-600">
-                                      <div className="w-3 h-3 bg-yellow-400 rounded-full mr-1"></div>
-                                      <span className="text-xs font-medium">Maybe</span>
-                                    </div>
-                                  )}
-                                  {participant.status === "unavailable" && (
-                                    <div className="flex items-center text-red-500">
-                                      <X className="w-3 h-3 mr-1" />
-                                      <span className="text-xs font-medium">Not Available</span>
-                                    </div>
-                                  )}
+                        {option.participants.length > 0 && (
+                          <div className="mt-3 pt-3 border-t border-neutral-100">
+                            <div className="text-xs text-gray-500 mb-2 font-medium">Responses:</div>
+                            <div className="space-y-1">
+                              {option.participants.map((participant) => (
+                                <div key={participant.id} className="flex items-center justify-between">
+                                  <span className="text-sm text-gray-700">{participant.name}</span>
+                                  <div className="flex items-center">
+                                    {participant.status === "available" && (
+                                      <div className="flex items-center text-success">
+                                        <Check className="w-3 h-3 mr-1" />
+                                        <span className="text-xs font-medium">Available</span>
+                                      </div>
+                                    )}
+                                    {participant.status === "maybe" && (
+                                      <div className="flex items-center text-yellow-600">
+                                        <div className="w-3 h-3 bg-yellow-400 rounded-full mr-1"></div>
+                                        <span className="text-xs font-medium">Maybe</span>
+                                      </div>
+                                    )}
+                                    {participant.status === "unavailable" && (
+                                      <div className="flex items-center text-red-500">
+                                        <X className="w-3 h-3 mr-1" />
+                                        <span className="text-xs font-medium">Not Available</span>
+                                      </div>
+                                    )}
+                                  </div>
                                 </div>
-                              </div>
-                            ))}
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
-            </div>
+            )}
 
-            <div className="flex justify-between items-center pt-4 border-t border-neutral-100">
-              <div className="flex space-x-3">
-                <Button variant="outline">
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit Event
-                </Button>
+            <div className="flex flex-wrap justify-between items-center gap-3 pt-4 border-t border-neutral-100">
+              <div className="flex flex-wrap gap-3">
+                {isOrganizer && event.status !== "cancelled" && (
+                  <Link href={`/event/${shareId}/edit`}>
+                    <Button variant="outline">
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit Event
+                    </Button>
+                  </Link>
+                )}
                 <Button variant="outline" onClick={copyShareLink}>
                   <Share2 className="mr-2 h-4 w-4" />
                   Share
                 </Button>
+                <CalendarFeedButton shareId={shareId} />
+                {event.participantCount > 0 && (
+                  <>
+                    <ExportResultsButton shareId={shareId} format="xlsx" />
+                    <ExportResultsButton shareId={shareId} format="csv" />
+                    <ExportResultsButton shareId={shareId} format="json" />
+                  </>
+                )}
+                <Link href={`/create?from=${shareId}`}>
+                  <Button variant="outline">
+                    <CopyPlus className="mr-2 h-4 w-4" />
+                    Duplicate
+                  </Button>
+                </Link>
+                {isOrganizer && (
+                  <Button variant="outline" onClick={() => setSavingTemplate(true)}>
+                    <BookmarkPlus className="mr-2 h-4 w-4" />
+                    Save as Template
+                  </Button>
+                )}
+                {isOrganizer && (
+                  <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setDeleting(true)}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                )}
               </div>
-              {bestTimeSlotIds.length > 0 && (
-                <Button className="bg-success hover:bg-green-600">
+              {canConfirm && bestTimeSlotIds.length > 0 && (
+                <Button
+                  className="bg-success hover:bg-green-600"
+                  onClick={() => chooseTimeOption(event.timeOptions.find(option => option.id === pickBestTimeSlotId(event.timeOptions)))}
+                  disabled={confirmTimeMutation.isPending}
+                >
                   <Check className="mr-2 h-4 w-4" />
-                  Confirm Best Time
+                  {confirmTimeMutation.isPending ? "Confirming..." : "Confirm Best Time"}
                 </Button>
               )}
             </div>
           </CardContent>
         </Card>
+
+        {isOrganizer && <ResponsesPanel event={event} />}
+
+        <SeriesPanel event={event} isOrganizer={isOrganizer} />
       </main>
 
+      <SaveTemplateDialog shareId={shareId} open={savingTemplate} onOpenChange={setSavingTemplate} />
+
+      <DeleteEventDialog shareId={shareId} open={deleting} onOpenChange={setDeleting} />
+
+      <RecurrenceDialog
+        weekday={schedulingOption?.weekday ?? null}
+        onConfirm={(recurrence) => schedulingOption && confirmTimeMutation.mutate({ timeOptionId: schedulingOption.id, recurrence })}
+        onClose={() => setSchedulingOption(undefined)}
+        isPending={confirmTimeMutation.isPending}
+      />
+
       <Footer />
     </div>
   );
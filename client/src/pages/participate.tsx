@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
-import { Check, MessageCircleQuestion, X, Send } from "lucide-react";
+import { Check, MessageCircleQuestion, X, Send, CalendarCheck, CalendarSearch, Clock, Lock, Ban, Trash2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,10 +13,22 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
+import { TimeZoneToggle } from "@/components/time-zone-toggle";
+import { OptionDate } from "@/components/option-date";
+import { AvailabilityGrid, PaintStatusPicker, type PaintStatus } from "@/components/availability-grid";
+import { CancellationNotice } from "@/components/event-status";
+import { AddToCalendarButton } from "@/components/add-to-calendar-button";
+import { CalendarImportDialog } from "@/components/calendar-import-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, formatTime } from "@/lib/utils";
-import { apiRequest } from "@/lib/queryClient";
-import type { EventWithDetails } from "@shared/schema";
+import { useNow } from "@/hooks/use-now";
+import { formatDeadline, formatOptionDay, formatTime } from "@/lib/utils";
+import { apiRequest, ApiRequestError, getErrorMessage, getFieldErrors } from "@/lib/queryClient";
+import { adminHeaders, forgetParticipantCredentials, getAdminToken, getParticipantCredentials, saveParticipantCredentials } from "@/lib/event-tokens";
+import { formatDateRange, formatDuration, isAllDay } from "@shared/duration";
+import { convertTimeOption, formatTimeZoneAbbreviation, getBrowserTimeZone } from "@shared/time-zone";
+import { formatRecurrence, getOptionDate } from "@shared/weekday";
+import { formatTimeRemaining, isPastDeadline } from "@shared/deadline";
+import type { CalendarSuggestions, EventWithDetails, ParticipantResponse } from "@shared/schema";
 
 interface ParticipateProps {
   shareId: string;
@@ -31,71 +43,14 @@ export default function Participate({ shareId }: ParticipateProps) {
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
   const [availability, setAvailability] = useState<Record<number, string>>({});
-
-  // Helper function to check if duration is multi-day
-  const isMultiDay = (duration: string): boolean => {
-    return ["2 days", "3 days", "4 days", "A week"].includes(duration);
-  };
-
-  // Helper function to calculate end date for multi-day events
-  const calculateEndDate = (startDate: string, duration: string): string => {
-    if (!startDate) return "";
-    
-    // Parse the date string properly to avoid timezone issues
-    const [year, month, day] = startDate.split('-').map(Number);
-    const date = new Date(year, month - 1, day); // month is 0-indexed
-    let daysToAdd = 0;
-    
-    switch (duration) {
-      case "2 days":
-        daysToAdd = 1; // Day 1 + Day 2 = 1 day later
-        break;
-      case "3 days":
-        daysToAdd = 2; // Day 1 + Day 2 + Day 3 = 2 days later
-        break;
-      case "4 days":
-        daysToAdd = 3; // Day 1 + Day 2 + Day 3 + Day 4 = 3 days later
-        break;
-      case "A week":
-        daysToAdd = 7; // Start day + 7 more days
-        break;
-      default:
-        return "";
-    }
-    
-    date.setDate(date.getDate() + daysToAdd);
-    return date.toLocaleDateString('en-US');
-  };
-
-  // Helper function to format date range for multi-day events
-  const formatDateRange = (startDate: string, duration: string): string => {
-    // Parse start date properly
-    const [year, month, day] = startDate.split('-').map(Number);
-    const startDateObj = new Date(year, month - 1, day);
-    const startFormatted = startDateObj.toLocaleDateString('en-US', { 
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric' 
-    });
-    
-    // Calculate end date
-    let daysToAdd = 0;
-    switch (duration) {
-      case "2 days": daysToAdd = 1; break;
-      case "3 days": daysToAdd = 2; break;
-      case "4 days": daysToAdd = 3; break;
-      case "A week": daysToAdd = 7; break;
-    }
-    
-    const endDateObj = new Date(year, month - 1, day + daysToAdd);
-    const endFormatted = endDateObj.toLocaleDateString('en-US', { 
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric' 
-    });
-    
-    return `${startFormatted} - ${endFormatted}`;
-  };
+  const [optionErrors, setOptionErrors] = useState<Record<number, string>>({});
+  const viewerTimeZone = getBrowserTimeZone();
+  const [displayTimeZone, setDisplayTimeZone] = useState(viewerTimeZone);
+  const [paintStatus, setPaintStatus] = useState<PaintStatus>("available");
+  const [importingCalendar, setImportingCalendar] = useState(false);
+  // Titles of the participant's own calendar entries that clash with each option, after an import
+  const [calendarConflicts, setCalendarConflicts] = useState<Record<number, string[]>>({});
+  const now = useNow();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -108,31 +63,127 @@ export default function Participate({ shareId }: ParticipateProps) {
     queryKey: [`/api/events/${shareId}`],
   });
 
-  const submitAvailabilityMutation = useMutation({
-    mutationFn: async (data: { participant: { name: string }; availability: Array<{ timeOptionId: number; status: string }> }) => {
-      const response = await apiRequest("POST", `/api/events/${shareId}/participate`, data);
+  // Load the answers this browser gave before, if any
+  const credentials = getParticipantCredentials(shareId);
+  const previousResponseKey = `/api/events/${shareId}/participants/${credentials?.participantId}`;
+  const { data: previousResponse } = useQuery<ParticipantResponse | null>({
+    queryKey: [previousResponseKey],
+    queryFn: async () => {
+      try {
+        const response = await apiRequest("GET", previousResponseKey, undefined, { "X-Edit-Token": credentials!.editToken });
+        return response.json();
+      } catch (error) {
+        // The organizer removed this response, so start over as a new participant
+        if (error instanceof ApiRequestError && error.status === 404) {
+          forgetParticipantCredentials(shareId);
+          return null;
+        }
+        throw error;
+      }
+    },
+    enabled: credentials !== null,
+  });
+
+  useEffect(() => {
+    if (previousResponse) {
+      form.reset({ name: previousResponse.name });
+      setAvailability(Object.fromEntries(
+        previousResponse.availability.map(({ timeOptionId, status }) => [timeOptionId, status])
+      ));
+    }
+  }, [previousResponse, form]);
+
+  const removeResponseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", previousResponseKey, undefined, { "X-Edit-Token": credentials!.editToken });
       return response.json();
     },
     onSuccess: () => {
+      forgetParticipantCredentials(shareId);
+      queryClient.removeQueries({ queryKey: [previousResponseKey] });
+      form.reset({ name: "" });
+      setAvailability({});
+      toast({
+        title: "Response Removed",
+        description: "Your name and answers have been deleted from this event.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to remove your response. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Imported suggestions replace earlier answers; the participant reviews them before submitting
+  const applyCalendarSuggestions = ({ suggestions }: CalendarSuggestions) => {
+    setAvailability(prev => ({
+      ...prev,
+      ...Object.fromEntries(suggestions.map(({ timeOptionId, status }) => [timeOptionId, status])),
+    }));
+    setCalendarConflicts(Object.fromEntries(suggestions.map(({ timeOptionId, conflicts }) => [timeOptionId, conflicts])));
+    const clashing = suggestions.filter(suggestion => suggestion.status === "unavailable").length;
+    toast({
+      title: "Suggestions Added",
+      description: `${clashing} of ${suggestions.length} options clash with your calendar. Check the answers before submitting.`,
+    });
+  };
+
+  const submitAvailabilityMutation = useMutation({
+    mutationFn: async (data: { participant: { name: string }; editToken?: string; availability: Array<{ timeOptionId: number; status: string }> }) => {
+      // The organizer's token lets them answer their own draft before it opens
+      const response = await apiRequest("POST", `/api/events/${shareId}/participate`, data, adminHeaders(shareId));
+      return response.json();
+    },
+    onSuccess: (result: { participantId: number; editToken: string }) => {
+      // Remember this browser's response so it can be edited later
+      saveParticipantCredentials(shareId, { participantId: result.participantId, editToken: result.editToken });
+
       toast({
         title: "Availability Submitted!",
         description: "Thank you for submitting your availability.",
       });
       // Invalidate the event cache to ensure fresh data
       queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}/participants/${result.participantId}`] });
       // Redirect to event view to show results
       setLocation(`/event/${shareId}`);
     },
-    onError: () => {
+    onError: (error: Error) => {
+      // The poll may have closed or been scheduled since the page loaded
+      if (error instanceof ApiRequestError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: [`/api/events/${shareId}`] });
+      }
+
+      // Availability errors are keyed by position in the submitted list, which follows event.timeOptions
+      const availabilityErrors = getFieldErrors(error, "availability.");
+      setOptionErrors(Object.fromEntries(
+        Object.entries(availabilityErrors)
+          .map(([path, message]) => [event?.timeOptions[parseInt(path, 10)]?.id, message] as const)
+          .filter(([timeOptionId]) => timeOptionId !== undefined)
+      ));
+
+      const nameError = getFieldErrors(error, "participant.")["name"];
+      if (nameError) {
+        const suggestedName = error instanceof ApiRequestError ? error.body.suggestedName : undefined;
+        form.setError("name", {
+          message: suggestedName ? `${nameError}. Try a different name, such as "${suggestedName}".` : nameError,
+        });
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to submit availability. Please try again.",
+        description: getErrorMessage(error, "Failed to submit availability. Please try again."),
         variant: "destructive",
       });
     },
   });
 
   const setTimeOptionAvailability = (timeOptionId: number, status: string) => {
+    setOptionErrors(({ [timeOptionId]: _cleared, ...rest }) => rest);
     setAvailability(prev => ({
       ...prev,
       [timeOptionId]: status,
@@ -149,6 +200,7 @@ export default function Participate({ shareId }: ParticipateProps) {
 
     submitAvailabilityMutation.mutate({
       participant: { name: data.name },
+      editToken: getParticipantCredentials(shareId)?.editToken,
       availability: availabilityArray,
     });
   };
@@ -187,6 +239,129 @@ export default function Participate({ shareId }: ParticipateProps) {
     );
   }
 
+  // Participants can take their answers back at any stage, even after the poll has closed
+  const removeResponseButton = previousResponse && (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      className="bg-white text-red-600 hover:text-red-700"
+      onClick={() => removeResponseMutation.mutate()}
+      disabled={removeResponseMutation.isPending}
+    >
+      <Trash2 className="mr-2 h-4 w-4" />
+      {removeResponseMutation.isPending ? "Removing..." : "Remove my response"}
+    </Button>
+  );
+
+  const confirmedOption = event.timeOptions.find(option => option.id === event.confirmedTimeOptionId);
+
+  if (confirmedOption && event.status !== "cancelled") {
+    // Shown in the participant's own zone
+    const confirmedTime = convertTimeOption(confirmedOption, event.duration, event.timeZone, viewerTimeZone);
+
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card className="shadow-lg border-2 border-success">
+            <CardContent className="p-6">
+              <div className="flex items-center mb-6">
+                <div className="w-10 h-10 bg-success rounded-lg flex items-center justify-center mr-3">
+                  <CalendarCheck className="text-white h-5 w-5" />
+                </div>
+                <div>
+                  <h3 className="text-2xl font-semibold text-gray-900">{event.title}</h3>
+                  <p className="text-gray-600">{event.description}</p>
+                </div>
+              </div>
+
+              <div className="bg-green-50 rounded-lg p-4 mb-6">
+                <p className="text-sm font-medium text-success mb-1">This event has been scheduled for:</p>
+                {isAllDay(event.duration) ? (
+                  <p className="text-lg font-semibold text-gray-900">
+                    {confirmedOption.weekday !== null ? formatOptionDay(confirmedTime.date, confirmedTime.weekday, true) : formatDateRange(confirmedTime.date, event.duration)}
+                  </p>
+                ) : (
+                  <p className="text-lg font-semibold text-gray-900">
+                    {formatOptionDay(confirmedTime.date, confirmedTime.weekday, confirmedOption.weekday !== null)}, {formatTime(confirmedTime.startTime)} - {formatTime(confirmedTime.endTime)} {formatTimeZoneAbbreviation(viewerTimeZone, confirmedTime.date)}
+                  </p>
+                )}
+                {event.recurrence && (
+                  <p className="text-sm text-gray-700 mt-1">{formatRecurrence(event.recurrence)}</p>
+                )}
+                <p className="text-sm text-gray-600 mt-1">Responses are no longer being collected.</p>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                {removeResponseButton}
+                <AddToCalendarButton shareId={shareId} />
+                <Link href={`/event/${shareId}`}>
+                  <Button variant="outline">View Results</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  // Why the form isn't offered, if it isn't
+  const deadline = event.responseDeadline;
+  const closedNotice =
+    event.status === "draft" && !getAdminToken(shareId)
+        ? { title: "This event isn't open for responses yet.", detail: "Check back once the organizer has opened it." }
+        : event.status === "closed"
+          ? { title: "The organizer has closed responses.", detail: "The organizer can reopen the poll if more answers are needed." }
+          : deadline && isPastDeadline(deadline, now)
+            ? { title: `Responses closed on ${formatDeadline(deadline)}.`, detail: "The organizer can reopen the poll if more answers are needed." }
+            : null;
+
+  if (event.status === "cancelled" || closedNotice) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card className="shadow-lg">
+            <CardContent className="p-6">
+              <div className="flex items-center mb-6">
+                <div className={`w-10 h-10 rounded-lg flex items-center justify-center mr-3 ${event.status === "cancelled" ? "bg-red-500" : "bg-gray-400"}`}>
+                  {event.status === "cancelled" ? <Ban className="text-white h-5 w-5" /> : <Lock className="text-white h-5 w-5" />}
+                </div>
+                <div>
+                  <h3 className="text-2xl font-semibold text-gray-900">{event.title}</h3>
+                  <p className="text-gray-600">{event.description}</p>
+                </div>
+              </div>
+
+              {event.status === "cancelled" || !closedNotice ? (
+                <CancellationNotice event={event} />
+              ) : (
+                <div className="bg-gray-50 rounded-lg p-4 mb-6">
+                  <p className="text-sm font-medium text-gray-900 mb-1">{closedNotice.title}</p>
+                  <p className="text-sm text-gray-600">
+                    {previousResponse ? "Your earlier answers are still saved. " : ""}
+                    {closedNotice.detail}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                {removeResponseButton}
+                <Link href={`/event/${shareId}`}>
+                  <Button variant="outline">View Results</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
@@ -204,6 +379,25 @@ export default function Participate({ shareId }: ParticipateProps) {
               </div>
             </div>
 
+            {deadline && (
+              <div className="flex items-center bg-amber-50 rounded-lg p-4 mb-6 text-sm text-amber-900">
+                <Clock className="h-4 w-4 mr-2 shrink-0" />
+                <span>
+                  Responses close in <span className="font-medium">{formatTimeRemaining(deadline, now)}</span> ({formatDeadline(deadline)})
+                </span>
+              </div>
+            )}
+
+            {previousResponse && (
+              <div className="flex flex-wrap items-center justify-between gap-3 bg-blue-50 rounded-lg p-4 mb-6">
+                <div>
+                  <p className="text-sm font-medium text-blue-900">Welcome back, {previousResponse.name}!</p>
+                  <p className="text-sm text-blue-700">Your previous answers are filled in below. Update them and submit again to save your changes.</p>
+                </div>
+                {removeResponseButton}
+              </div>
+            )}
+
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 <FormField
@@ -224,90 +418,128 @@ export default function Participate({ shareId }: ParticipateProps) {
                   )}
                 />
 
-                <div className="space-y-4 mb-6">
-                  {event.timeOptions.map((option) => {
-                    const currentStatus = availability[option.id];
+                {!isAllDay(event.duration) && event.timeOptions.length > 0 && (
+                  <TimeZoneToggle
+                    eventTimeZone={event.timeZone}
+                    viewerTimeZone={viewerTimeZone}
+                    displayTimeZone={displayTimeZone}
+                    onChange={setDisplayTimeZone}
+                    referenceDate={getOptionDate(event.timeOptions[0])}
+                  />
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <p className="text-sm text-gray-600">Busy calendar? Let your own calendar fill in a first guess.</p>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setImportingCalendar(true)}>
+                    <CalendarSearch className="mr-2 h-4 w-4" />
+                    Import from Calendar
+                  </Button>
+                </div>
+
+                {event.kind === "grid" ? (
+                  <div className="space-y-3 mb-6">
+                    <PaintStatusPicker value={paintStatus} onChange={setPaintStatus} />
+                    <AvailabilityGrid
+                      cells={event.timeOptions.map(option => {
+                        const shown = convertTimeOption(option, event.duration, event.timeZone, displayTimeZone);
+                        return { id: option.id, date: shown.date, startTime: shown.startTime };
+                      })}
+                      value={availability}
+                      onChange={setAvailability}
+                      paintStatus={paintStatus}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-4 mb-6">
+                    {event.timeOptions.map((option) => {
+                      const currentStatus = availability[option.id];
+                      const shown = convertTimeOption(option, event.duration, event.timeZone, displayTimeZone);
                     
-                    return (
-                      <div key={option.id} className="border border-neutral-100 rounded-lg p-4">
-                        <div className="flex items-center justify-between mb-3">
-                          <div className="flex items-center space-x-4">
-                            {isMultiDay(event.duration) ? (
-                              <div className="text-center">
-                                <div className="text-lg font-semibold text-gray-900">{formatDateRange(option.date, event.duration)}</div>
-                                <div className="text-sm text-gray-500">All Day</div>
-                              </div>
-                            ) : (
-                              <>
+                      return (
+                        <div key={option.id} className="border border-neutral-100 rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center space-x-4">
+                              {isAllDay(event.duration) ? (
                                 <div className="text-center">
-                                  <div className="text-lg font-semibold text-gray-900">{formatDate(option.date).dayName}</div>
-                                  <div className="text-2xl font-bold text-gray-900">{formatDate(option.date).dayNumber}</div>
-                                  <div className="text-sm text-gray-500">{formatDate(option.date).month}</div>
-                                </div>
-                                <div>
-                                  <div className="font-medium text-gray-900">{formatTime(option.startTime)} - {formatTime(option.endTime)}</div>
-                                  <div className="text-sm text-gray-600">{event.duration} duration</div>
+                                  <div className="text-lg font-semibold text-gray-900">
+                                    {option.weekday !== null ? formatOptionDay(shown.date, shown.weekday, true) : formatDateRange(shown.date, event.duration)}
+                                  </div>
+                                  <div className="text-sm text-gray-500">All Day</div>
                                 </div>
-                              </>
-                            )}
-                          </div>
-                          <div>
-                            {option.availabilityCount.available > 0 && (
-                              <Badge variant="secondary" className="text-xs mt-1">
-                                {option.availabilityCount.available} people available
-                              </Badge>
-                            )}
-                            <div className="text-sm text-gray-500">
-                              {option.availabilityCount.total} people responded
+                              ) : (
+                                <>
+                                  <OptionDate date={shown.date} weekday={shown.weekday} isWeekdayOption={option.weekday !== null} />
+                                  <div>
+                                    <div className="font-medium text-gray-900">{formatTime(shown.startTime)} - {formatTime(shown.endTime)}</div>
+                                    <div className="text-sm text-gray-600">{formatDuration(event.duration)} duration</div>
+                                  </div>
+                                </>
+                              )}
+                            </div>
+                            <div>
+                              {option.availabilityCount.available > 0 && (
+                                <Badge variant="secondary" className="text-xs mt-1">
+                                  {option.availabilityCount.available} people available
+                                </Badge>
+                              )}
+                              <div className="text-sm text-gray-500">
+                                {option.availabilityCount.total} people responded
+                              </div>
                             </div>
                           </div>
-                        </div>
                         
-                        <div className="flex space-x-3">
-                          <Button
-                            type="button"
-                            variant={currentStatus === "available" ? "default" : "outline"}
-                            className={`flex-1 py-3 px-4 font-medium transition-colors ${
-                              currentStatus === "available" 
-                                ? "border-success bg-success text-white hover:bg-green-600" 
-                                : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
-                            }`}
-                            onClick={() => setTimeOptionAvailability(option.id, "available")}
-                          >
-                            <Check className="mr-2 h-4 w-4" />
-                            Available
-                          </Button>
-                          <Button
-                            type="button"
-                            variant={currentStatus === "maybe" ? "default" : "outline"}
-                            className={`flex-1 py-3 px-4 font-medium transition-colors ${
-                              currentStatus === "maybe" 
-                                ? "border-yellow-400 bg-yellow-400 text-yellow-900 hover:bg-yellow-500" 
-                                : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
-                            }`}
-                            onClick={() => setTimeOptionAvailability(option.id, "maybe")}
-                          >
-                            <MessageCircleQuestion className="mr-2 h-4 w-4" />
-                            Maybe
-                          </Button>
-                          <Button
-                            type="button"
-                            variant={currentStatus === "unavailable" ? "default" : "outline"}
-                            className={`flex-1 py-3 px-4 font-medium transition-colors ${
-                              currentStatus === "unavailable" 
-                                ? "border-red-500 bg-red-500 text-white hover:bg-red-600" 
-                                : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
-                            }`}
-                            onClick={() => setTimeOptionAvailability(option.id, "unavailable")}
-                          >
-                            <X className="mr-2 h-4 w-4" />
-                            Not Available
-                          </Button>
+                          <div className="flex space-x-3">
+                            <Button
+                              type="button"
+                              variant={currentStatus === "available" ? "default" : "outline"}
+                              className={`flex-1 py-3 px-4 font-medium transition-colors ${
+                                currentStatus === "available" 
+                                  ? "border-success bg-success text-white hover:bg-green-600" 
+                                  : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
+                              }`}
+                              onClick={() => setTimeOptionAvailability(option.id, "available")}
+                            >
+                              <Check className="mr-2 h-4 w-4" />
+                              Available
+                            </Button>
+                            <Button
+                              type="button"
+                              variant={currentStatus === "maybe" ? "default" : "outline"}
+                              className={`flex-1 py-3 px-4 font-medium transition-colors ${
+                                currentStatus === "maybe" 
+                                  ? "border-yellow-400 bg-yellow-400 text-yellow-900 hover:bg-yellow-500" 
+                                  : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
+                              }`}
+                              onClick={() => setTimeOptionAvailability(option.id, "maybe")}
+                            >
+                              <MessageCircleQuestion className="mr-2 h-4 w-4" />
+                              Maybe
+                            </Button>
+                            <Button
+                              type="button"
+                              variant={currentStatus === "unavailable" ? "default" : "outline"}
+                              className={`flex-1 py-3 px-4 font-medium transition-colors ${
+                                currentStatus === "unavailable" 
+                                  ? "border-red-500 bg-red-500 text-white hover:bg-red-600" 
+                                  : "border-neutral-100 text-gray-600 hover:bg-gray-50 hover:text-gray-700"
+                              }`}
+                              onClick={() => setTimeOptionAvailability(option.id, "unavailable")}
+                            >
+                              <X className="mr-2 h-4 w-4" />
+                              Not Available
+                            </Button>
+                          </div>
+                          {calendarConflicts[option.id]?.length > 0 && (
+                            <p className="text-sm text-gray-600 mt-2">Clashes with: {calendarConflicts[option.id].join(", ")}</p>
+                          )}
+                          {optionErrors[option.id] && (
+                            <p className="text-sm font-medium text-destructive mt-2">{optionErrors[option.id]}</p>
+                          )}
                         </div>
-                      </div>
-                    );
-                  })}
-                </div>
+                      );
+                    })}
+                  </div>
+                )}
 
                 <div className="flex justify-end space-x-4">
                   <Button type="button" variant="outline">
@@ -319,7 +551,7 @@ export default function Participate({ shareId }: ParticipateProps) {
                     disabled={submitAvailabilityMutation.isPending}
                   >
                     <Send className="mr-2 h-4 w-4" />
-                    {submitAvailabilityMutation.isPending ? "Submitting..." : "Submit Availability"}
+                    {submitAvailabilityMutation.isPending ? "Submitting..." : previousResponse ? "Update Availability" : "Submit Availability"}
                   </Button>
                 </div>
               </form>
@@ -328,6 +560,13 @@ export default function Participate({ shareId }: ParticipateProps) {
         </Card>
       </main>
 
+      <CalendarImportDialog
+        shareId={shareId}
+        open={importingCalendar}
+        onOpenChange={setImportingCalendar}
+        onImport={applyCalendarSuggestions}
+      />
+
       <Footer />
     </div>
   );
@@ -0,0 +1,51 @@
+-- Converts events.duration from the old preset labels to structured JSON
+-- ({"unit":"minutes"|"days","value":n}). Run once before `npm run db:push`,
+-- which cannot change the column type on its own.
+
+-- The old server stored whatever label it was sent, so anything outside the
+-- presets below can't be converted safely. List those and stop before
+-- changing anything; map each one to a preset by hand, e.g.
+--   UPDATE events SET duration = '2 hours' WHERE duration = 'about 2h';
+-- then run this script again.
+DO $$
+DECLARE
+  unknown_labels text;
+BEGIN
+  SELECT string_agg(DISTINCT quote_literal(duration), ', ')
+  INTO unknown_labels
+  FROM events
+  WHERE duration NOT IN (
+    '30 minutes', '1 hour', '1.5 hours', '2 hours', '3 hours', '4 hours', '5 hours', '6 hours',
+    'All day', '2 days', '3 days', '4 days', 'A week'
+  );
+
+  IF unknown_labels IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown event durations: %. Map them to a preset and run this script again.', unknown_labels;
+  END IF;
+END $$;
+
+ALTER TABLE events ALTER COLUMN duration TYPE json USING (
+  CASE duration
+    WHEN '30 minutes' THEN '{"unit":"minutes","value":30}'
+    WHEN '1 hour' THEN '{"unit":"minutes","value":60}'
+    WHEN '1.5 hours' THEN '{"unit":"minutes","value":90}'
+    WHEN '2 hours' THEN '{"unit":"minutes","value":120}'
+    WHEN '3 hours' THEN '{"unit":"minutes","value":180}'
+    WHEN '4 hours' THEN '{"unit":"minutes","value":240}'
+    WHEN '5 hours' THEN '{"unit":"minutes","value":300}'
+    WHEN '6 hours' THEN '{"unit":"minutes","value":360}'
+    WHEN 'All day' THEN '{"unit":"days","value":1}'
+    WHEN '2 days' THEN '{"unit":"days","value":2}'
+    WHEN '3 days' THEN '{"unit":"days","value":3}'
+    WHEN '4 days' THEN '{"unit":"days","value":4}'
+    WHEN 'A week' THEN '{"unit":"days","value":7}'
+  END
+)::json;
+
+-- Day-based events used to be stored with a placeholder 09:00 start;
+-- they now always span the whole day
+UPDATE time_options
+SET start_time = '00:00', end_time = '23:59'
+FROM events
+WHERE time_options.event_id = events.id
+  AND events.duration->>'unit' = 'days';
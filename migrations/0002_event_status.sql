@@ -0,0 +1,7 @@
+-- Backfills events.status for events confirmed before the status column
+-- existed. Run once after `npm run db:push` has added the column; every
+-- other existing event keeps the default "open".
+
+UPDATE events
+SET status = 'confirmed'
+WHERE confirmed_time_option_id IS NOT NULL;
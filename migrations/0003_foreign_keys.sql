@@ -0,0 +1,17 @@
+-- Removes rows left behind by deleted or half-written events so the foreign
+-- keys added in shared/schema.ts can be created. Run once before
+-- `npm run db:push`, which fails on existing rows that break a new key.
+
+DELETE FROM participants
+WHERE event_id NOT IN (SELECT id FROM events);
+
+DELETE FROM time_options
+WHERE event_id NOT IN (SELECT id FROM events);
+
+DELETE FROM availability
+WHERE participant_id NOT IN (SELECT id FROM participants)
+   OR time_option_id NOT IN (SELECT id FROM time_options);
+
+UPDATE events
+SET confirmed_time_option_id = NULL
+WHERE confirmed_time_option_id NOT IN (SELECT id FROM time_options);
@@ -0,0 +1,61 @@
+-- Removes duplicates that stop the unique indexes added in shared/schema.ts
+-- from being created. Before writes were transactional, two concurrent
+-- submissions could save the same answer twice, or two people could respond
+-- under the same name in different case. Run once before `npm run db:push`.
+
+-- Keep only the newest answer per participant and time option
+DELETE FROM availability older
+USING availability newer
+WHERE newer.participant_id = older.participant_id
+  AND newer.time_option_id = older.time_option_id
+  AND newer.id > older.id;
+
+-- Everyone after the first person with a name, ignoring case, gets the first
+-- " (2)", " (3)" suffix nobody in the event is using yet, as the app suggests,
+-- so no one's answers are lost. Renaming one at a time keeps each new name
+-- from clashing with an existing "Ann (2)" or with an earlier rename.
+DO $$
+DECLARE
+  duplicate record;
+  suffix integer;
+BEGIN
+  FOR duplicate IN
+    SELECT id, event_id, name
+    FROM (
+      SELECT id,
+             event_id,
+             name,
+             row_number() OVER (PARTITION BY event_id, lower(name) ORDER BY id) AS position
+      FROM participants
+    ) ranked
+    WHERE position > 1
+    ORDER BY id
+  LOOP
+    suffix := 2;
+    WHILE EXISTS (
+      SELECT 1
+      FROM participants
+      WHERE event_id = duplicate.event_id
+        AND lower(name) = lower(duplicate.name || ' (' || suffix || ')')
+    ) LOOP
+      suffix := suffix + 1;
+    END LOOP;
+
+    UPDATE participants
+    SET name = duplicate.name || ' (' || suffix || ')'
+    WHERE id = duplicate.id;
+  END LOOP;
+END $$;
+
+-- Stop with a clear message rather than let db:push fail on the index halfway
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM participants
+    GROUP BY event_id, lower(name)
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Participants still share a name within an event; rename them before running db:push';
+  END IF;
+END $$;
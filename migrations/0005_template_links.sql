@@ -0,0 +1,19 @@
+-- Gives templates saved before template links existed a share id and admin
+-- token, so `npm run db:push` can make both columns required. Run once
+-- before db:push.
+--
+-- Nobody holds the new tokens, so these templates no longer show up on
+-- anyone's create page. List them with
+--   SELECT name, share_id FROM templates;
+-- and send /create?template=<share_id> links to their owners, or delete them.
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS share_id text;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS admin_token text;
+
+UPDATE templates
+SET share_id = replace(gen_random_uuid()::text, '-', '')
+WHERE share_id IS NULL;
+
+UPDATE templates
+SET admin_token = gen_random_uuid()::text
+WHERE admin_token IS NULL;
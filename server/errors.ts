@@ -0,0 +1,79 @@
+import type { Response } from "express";
+import { ZodError } from "zod";
+import { CalendarTooLargeError } from "@shared/ical";
+import { ParticipantNameTakenError } from "./storage";
+
+// Errors thrown from route handlers and turned into JSON responses by sendError
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(fieldErrors: Record<string, string[]>, message = "Invalid request data") {
+    super(400, message, { fieldErrors });
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(401, message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(409, message, details);
+    this.name = "ConflictError";
+  }
+}
+
+// Groups zod issues by dotted field path, e.g. { "event.title": ["Required"] }
+export function fieldErrorsFromZod(error: ZodError): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join(".") || "_";
+    (fieldErrors[path] ??= []).push(issue.message);
+  }
+  return fieldErrors;
+}
+
+// Responds with { error, ...details }; anything unexpected is logged and reported as a 500
+export function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof ZodError) {
+    error = new ValidationError(fieldErrorsFromZod(error));
+  } else if (error instanceof ParticipantNameTakenError) {
+    error = new ConflictError("Someone with that name has already responded");
+  } else if (error instanceof CalendarTooLargeError) {
+    error = new ValidationError({ calendar: [error.message] });
+  }
+
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ error: error.message, ...error.details });
+  }
+
+  console.error(`${context}:`, error);
+  res.status(500).json({ error: "Internal server error" });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { readFileSync } from "fs";
+import path from "path";
+
+// The one-off SQL scripts in migrations/, run against an in-process Postgres (PGlite)
+
+const readMigration = (name: string) => readFileSync(path.resolve(import.meta.dirname, "../migrations", name), "utf8");
+
+describe("0001_structured_duration.sql", () => {
+  // The events and time options tables as they were with text durations
+  async function databaseWith(durations: string[]) {
+    const client = new PGlite();
+    await client.exec(`
+      CREATE TABLE events (id serial PRIMARY KEY, duration text NOT NULL);
+      CREATE TABLE time_options (id serial PRIMARY KEY, event_id integer NOT NULL, start_time text NOT NULL, end_time text NOT NULL);
+    `);
+    for (const duration of durations) {
+      const { rows: [event] } = await client.query<{ id: number }>("INSERT INTO events (duration) VALUES ($1) RETURNING id", [duration]);
+      await client.query("INSERT INTO time_options (event_id, start_time, end_time) VALUES ($1, '09:00', '10:00')", [event.id]);
+    }
+    return client;
+  }
+
+  it("converts the preset labels", async () => {
+    const client = await databaseWith(["1.5 hours", "3 days"]);
+
+    await client.exec(readMigration("0001_structured_duration.sql"));
+
+    const { rows } = await client.query<{ duration: unknown; start_time: string; end_time: string }>(
+      "SELECT duration, start_time, end_time FROM events JOIN time_options ON time_options.event_id = events.id ORDER BY events.id",
+    );
+    expect(rows).toEqual([
+      { duration: { unit: "minutes", value: 90 }, start_time: "09:00", end_time: "10:00" },
+      { duration: { unit: "days", value: 3 }, start_time: "00:00", end_time: "23:59" },
+    ]);
+  });
+
+  it("stops without changing anything when it finds a label it doesn't know", async () => {
+    const client = await databaseWith(["1 hour", "about 2h", "lunch"]);
+
+    await expect(client.exec(readMigration("0001_structured_duration.sql"))).rejects.toThrow("Unknown event durations: 'about 2h', 'lunch'");
+
+    const { rows } = await client.query<{ duration: string }>("SELECT duration FROM events ORDER BY id");
+    expect(rows.map(row => row.duration)).toEqual(["1 hour", "about 2h", "lunch"]);
+  });
+});
+
+describe("0004_unique_indexes.sql", () => {
+  // The tables as they were before the unique indexes, so duplicates can exist
+  async function databaseWith(names: Array<[eventId: number, name: string]>) {
+    const client = new PGlite();
+    await client.exec(`
+      CREATE TABLE participants (id serial PRIMARY KEY, event_id integer NOT NULL, name text NOT NULL);
+      CREATE TABLE availability (id serial PRIMARY KEY, participant_id integer NOT NULL, time_option_id integer NOT NULL, status text NOT NULL);
+    `);
+    for (const [eventId, name] of names) {
+      await client.query("INSERT INTO participants (event_id, name) VALUES ($1, $2)", [eventId, name]);
+    }
+    return client;
+  }
+
+  it("renames clashing names to the first free suffix, so the unique index can be created", async () => {
+    const client = await databaseWith([[1, "Ann"], [1, "ann"], [1, "Ann (2)"], [1, "ANN"], [2, "ann"], [2, "Ann"]]);
+
+    await client.exec(readMigration("0004_unique_indexes.sql"));
+
+    const { rows } = await client.query<{ event_id: number; name: string }>("SELECT event_id, name FROM participants ORDER BY id");
+    expect(rows.map(row => [row.event_id, row.name])).toEqual([
+      [1, "Ann"], [1, "ann (3)"], [1, "Ann (2)"], [1, "ANN (4)"], [2, "ann"], [2, "Ann (2)"],
+    ]);
+    await expect(client.exec("CREATE UNIQUE INDEX participants_event_name_idx ON participants (event_id, lower(name))")).resolves.toBeDefined();
+  });
+
+  it("keeps only the newest answer per participant and option", async () => {
+    const client = await databaseWith([[1, "Ann"]]);
+    await client.exec(`
+      INSERT INTO availability (participant_id, time_option_id, status)
+      VALUES (1, 1, 'available'), (1, 1, 'maybe'), (1, 2, 'unavailable');
+    `);
+
+    await client.exec(readMigration("0004_unique_indexes.sql"));
+
+    const { rows } = await client.query<{ time_option_id: number; status: string }>("SELECT time_option_id, status FROM availability ORDER BY id");
+    expect(rows).toEqual([{ time_option_id: 1, status: "maybe" }, { time_option_id: 2, status: "unavailable" }]);
+  });
+});
@@ -0,0 +1,159 @@
+import ExcelJS from "exceljs";
+import type { EventWithDetails } from "@shared/schema";
+import { buildResultsExport, formatOptionLabel, resultsTotalRows, responseStatusLabels, responseStatuses, type ResponseStatus } from "@shared/results";
+import { calculateSummaryStats, getBestTimeSlotIds } from "@shared/scheduling";
+import { formatDuration } from "@shared/duration";
+import { formatRecurrence } from "@shared/weekday";
+import { statusLabels } from "@shared/status";
+
+// The .xlsx results workbook: a colour-coded response matrix, the ranked summary from the event
+// page, and the event's details. Built with exceljs, so nothing leaves the server.
+
+// Same greens, yellows and reds as the event page
+const statusColors: Record<ResponseStatus, { fill: string; font: string }> = {
+  available: { fill: "FFDCFCE7", font: "FF2E7D32" },
+  maybe: { fill: "FFFEF9C3", font: "FFCA8A04" },
+  unavailable: { fill: "FFFEE2E2", font: "FFEF4444" },
+};
+
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.alignment = { vertical: "middle", wrapText: true };
+  row.eachCell(cell => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF3F4F6" } };
+    cell.border = { bottom: { style: "thin", color: { argb: "FFD1D5DB" } } };
+  });
+}
+
+// Sheet 1: one row per participant and one column per option, then the totals.
+// The colours are conditional formatting rules, so cells edited in Excel recolour themselves.
+function addResponsesSheet(workbook: ExcelJS.Workbook, event: EventWithDetails) {
+  const results = buildResultsExport(event);
+  const sheet = workbook.addWorksheet("Responses", { views: [{ state: "frozen", xSplit: 1, ySplit: 1 }] });
+
+  sheet.columns = [
+    { header: "Participant", width: 24 },
+    ...results.timeOptions.map(option => ({
+      header: option.id === event.confirmedTimeOptionId ? `${option.label} (confirmed)` : option.label,
+      width: 22,
+    })),
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  for (const participant of results.participants) {
+    sheet.addRow([
+      participant.name,
+      ...results.timeOptions.map(option => {
+        const status = participant.responses[option.id];
+        return status ? responseStatusLabels[status] : "";
+      }),
+    ]);
+  }
+
+  if (results.timeOptions.length > 0 && results.participants.length > 0) {
+    const lastColumn = sheet.getColumn(results.timeOptions.length + 1).letter;
+    sheet.addConditionalFormatting({
+      ref: `B2:${lastColumn}${results.participants.length + 1}`,
+      rules: responseStatuses.map((status, index) => ({
+        type: "cellIs" as const,
+        operator: "equal" as const,
+        formulae: [`"${responseStatusLabels[status]}"`],
+        priority: index + 1,
+        style: {
+          fill: { type: "pattern" as const, pattern: "solid" as const, bgColor: { argb: statusColors[status].fill } },
+          font: { color: { argb: statusColors[status].font }, bold: true },
+        },
+      })),
+    });
+  }
+
+  sheet.addRow([]);
+  for (const [label, key] of resultsTotalRows) {
+    const row = sheet.addRow([label, ...results.timeOptions.map(option => option.totals[key])]);
+    row.font = { bold: true };
+  }
+}
+
+// Sheet 2: every option ranked by available, then maybe, answers, like the summary table on the event page
+function addSummarySheet(workbook: ExcelJS.Workbook, event: EventWithDetails) {
+  const sheet = workbook.addWorksheet("Summary", { views: [{ state: "frozen", ySplit: 1 }] });
+  const bestIds = getBestTimeSlotIds(event.timeOptions);
+
+  sheet.columns = [
+    { header: "Rank", width: 8 },
+    { header: "Time option", width: 36 },
+    { header: responseStatusLabels.available, width: 12 },
+    { header: responseStatusLabels.maybe, width: 12 },
+    { header: responseStatusLabels.unavailable, width: 14 },
+    { header: "Total responses", width: 16 },
+    { header: "Note", width: 22 },
+  ];
+  styleHeaderRow(sheet.getRow(1));
+
+  calculateSummaryStats(event.timeOptions).forEach((option, index) => {
+    const note = option.id === event.confirmedTimeOptionId
+      ? "Confirmed"
+      : event.confirmedTimeOptionId === null && bestIds.includes(option.id) ? "Best availability" : "";
+    const row = sheet.addRow([
+      index + 1,
+      formatOptionLabel(option, event.duration, event.timeZone),
+      option.stats.available,
+      option.stats.maybe,
+      option.stats.unavailable,
+      option.stats.total,
+      note,
+    ]);
+    responseStatuses.forEach((status, column) => {
+      row.getCell(column + 3).font = { color: { argb: statusColors[status].font }, bold: true };
+    });
+    if (note) {
+      row.getCell(7).fill = { type: "pattern", pattern: "solid", fgColor: { argb: statusColors.available.fill } };
+    }
+  });
+}
+
+// Sheet 3: what the event is, so the file still makes sense once it's been forwarded around
+function addEventSheet(workbook: ExcelJS.Workbook, event: EventWithDetails, eventUrl: string, exportedAt: Date) {
+  const sheet = workbook.addWorksheet("Event");
+  sheet.columns = [{ width: 22 }, { width: 60 }];
+
+  const confirmedOption = event.timeOptions.find(option => option.id === event.confirmedTimeOptionId);
+  const details: Array<[string, ExcelJS.CellValue]> = [
+    ["Title", event.title],
+    ["Description", event.description],
+    ["Status", statusLabels[event.status]],
+    ["Time zone", event.timeZone],
+    ["Duration", formatDuration(event.duration)],
+    ["Time options", event.timeOptions.length],
+    ["Participants", event.participantCount],
+    ["Response deadline", event.responseDeadline ? new Date(event.responseDeadline) : null],
+    ["Confirmed time", confirmedOption ? formatOptionLabel(confirmedOption, event.duration, event.timeZone) : null],
+    ["Repeats", event.recurrence ? formatRecurrence(event.recurrence) : null],
+    ["Cancellation reason", event.cancellationReason],
+    ["Created", new Date(event.createdAt)],
+    ["Exported", exportedAt],
+    ["Link", { text: eventUrl, hyperlink: eventUrl }],
+  ];
+
+  for (const [label, value] of details) {
+    if (value === null || value === undefined || value === "") continue;
+    const row = sheet.addRow([label, value]);
+    row.getCell(1).font = { bold: true };
+    row.getCell(2).alignment = { wrapText: true, vertical: "top", horizontal: "left" };
+    if (value instanceof Date) {
+      row.getCell(2).numFmt = "yyyy-mm-dd hh:mm \"UTC\"";
+    }
+  }
+}
+
+export async function buildResultsWorkbook(event: EventWithDetails, eventUrl: string, exportedAt: Date = new Date()): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "HangTime";
+  workbook.created = exportedAt;
+
+  addResponsesSheet(workbook, event);
+  addSummarySheet(workbook, event);
+  addEventSheet(workbook, event, eventUrl, exportedAt);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,813 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import ExcelJS from "exceljs";
+import { registerRoutes } from "./routes";
+import { MemStorage } from "./storage";
+import type { EventStatus } from "@shared/schema";
+
+// HTTP-level checks of the event and participation API, against a fresh in-memory store per test
+
+let app: express.Express;
+let storage: MemStorage;
+
+beforeEach(async () => {
+  app = express();
+  storage = new MemStorage();
+  await registerRoutes(app, storage);
+});
+
+const dinner = {
+  event: { title: "Team Dinner", duration: { unit: "minutes", value: 90 }, timeZone: "UTC" },
+  timeOptions: [
+    { date: "2030-12-01", startTime: "19:00" },
+    { date: "2030-12-02", startTime: "19:00" },
+  ],
+};
+
+async function createEvent(body: object = dinner) {
+  const response = await request(app).post("/api/events").send(body);
+  expect(response.status).toBe(200);
+  return response.body;
+}
+
+function participate(shareId: string, body: object) {
+  return request(app).post(`/api/events/${shareId}/participate`).send(body);
+}
+
+describe("POST /api/events", () => {
+  it("creates the event with its time options and an admin token", async () => {
+    const event = await createEvent();
+
+    expect(event.shareId).toEqual(expect.any(String));
+    expect(event.adminToken).toEqual(expect.any(String));
+    expect(event.title).toBe("Team Dinner");
+    expect(event.status).toBe("open");
+    expect(event.timeOptions).toHaveLength(2);
+    expect(event.timeOptions[0]).toMatchObject({ date: "2030-12-01", startTime: "19:00", endTime: "20:30" });
+  });
+
+  it("rejects a malformed event with field errors", async () => {
+    const response = await request(app).post("/api/events").send({
+      event: { title: "", duration: { unit: "minutes", value: 90 } },
+      timeOptions: [{ date: "12/01/2030", startTime: "19:00" }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.fieldErrors).toHaveProperty(["event.title"]);
+    expect(response.body.fieldErrors["timeOptions.0.date"]).toEqual(["Date must be in YYYY-MM-DD format"]);
+  });
+});
+
+describe("GET /api/events/:shareId", () => {
+  it("returns the event without its admin token", async () => {
+    const created = await createEvent();
+
+    const response = await request(app).get(`/api/events/${created.shareId}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.shareId).toBe(created.shareId);
+    expect(response.body).not.toHaveProperty("adminToken");
+    expect(response.body.timeOptions.map((option: { id: number }) => option.id))
+      .toEqual(created.timeOptions.map((option: { id: number }) => option.id));
+    expect(response.body.participantCount).toBe(0);
+  });
+
+  it("responds 404 for an unknown share id", async () => {
+    const response = await request(app).get("/api/events/does-not-exist");
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toEqual(expect.any(String));
+  });
+});
+
+describe("organizer actions", () => {
+  // Each action with a body that would otherwise be accepted
+  const actions: Array<[string, (shareId: string, options: Array<{ id: number; date: string; startTime: string }>) => request.Test]> = [
+    ["PUT /api/events/:shareId", (shareId, options) => request(app).put(`/api/events/${shareId}`)
+      .send({ event: dinner.event, timeOptions: options.map(({ id, date, startTime }) => ({ id, date, startTime })) })],
+    ["POST .../confirm", (shareId, options) => request(app).post(`/api/events/${shareId}/confirm`).send({ timeOptionId: options[0].id })],
+    ["POST .../status", shareId => request(app).post(`/api/events/${shareId}/status`).send({ status: "closed" })],
+    ["POST .../cancel", shareId => request(app).post(`/api/events/${shareId}/cancel`).send({ reason: "Venue closed" })],
+    ["POST .../deadline", shareId => request(app).post(`/api/events/${shareId}/deadline`).send({ responseDeadline: "2030-11-30T12:00:00.000Z" })],
+    ["DELETE /api/events/:shareId", shareId => request(app).delete(`/api/events/${shareId}`)],
+  ];
+
+  it.each(actions)("%s needs the event's own admin token", async (_name, send) => {
+    const event = await createEvent();
+    const other = await createEvent();
+
+    const withoutToken = await send(event.shareId, event.timeOptions);
+    expect(withoutToken.status).toBe(401);
+
+    const withOtherToken = await send(event.shareId, event.timeOptions).set("X-Admin-Token", other.adminToken);
+    expect(withOtherToken.status).toBe(403);
+
+    // Neither attempt changed anything
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+    expect(body).toMatchObject({ status: "open", confirmedTimeOptionId: null, responseDeadline: null, sequence: event.sequence });
+
+    const withToken = await send(event.shareId, event.timeOptions).set("X-Admin-Token", event.adminToken);
+    expect(withToken.status).toBe(200);
+  });
+});
+
+describe("PUT /api/events/:shareId", () => {
+  function editEvent(event: { shareId: string; adminToken: string }, timeOptions: object[]) {
+    return request(app)
+      .put(`/api/events/${event.shareId}`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ event: dinner.event, timeOptions });
+  }
+
+  it("keeps answers on unchanged options and drops them from removed or rescheduled ones", async () => {
+    const event = await createEvent({
+      ...dinner,
+      timeOptions: [...dinner.timeOptions, { date: "2030-12-03", startTime: "19:00" }],
+    });
+    const [kept, rescheduled, removed] = event.timeOptions;
+    const answered = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: event.timeOptions.map((option: { id: number }) => ({ timeOptionId: option.id, status: "available" })),
+    });
+
+    const response = await editEvent(event, [
+      { id: kept.id, date: kept.date, startTime: kept.startTime },
+      { id: rescheduled.id, date: rescheduled.date, startTime: "20:00" },
+      { date: "2030-12-04", startTime: "19:00" },
+    ]);
+    expect(response.status).toBe(200);
+
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+    const ids = body.timeOptions.map((option: { id: number }) => option.id);
+    expect(ids).toEqual([kept.id, rescheduled.id, expect.any(Number)]);
+    expect(ids).not.toContain(removed.id);
+    expect(body.participantCount).toBe(1);
+
+    const [keptOption, rescheduledOption, addedOption] = body.timeOptions;
+    expect(keptOption.participants).toEqual([{ id: answered.body.participantId, name: "Ann", status: "available" }]);
+    expect(rescheduledOption).toMatchObject({ startTime: "20:00", endTime: "21:30", participants: [] });
+    expect(rescheduledOption.availabilityCount.total).toBe(0);
+    expect(addedOption).toMatchObject({ date: "2030-12-04", participants: [] });
+
+    // The participant's own view no longer lists answers for the removed or moved options
+    const own = await request(app)
+      .get(`/api/events/${event.shareId}/participants/${answered.body.participantId}`)
+      .set("X-Edit-Token", answered.body.editToken);
+    expect(own.body.availability).toEqual([{ timeOptionId: kept.id, status: "available" }]);
+  });
+
+  it("edits an event nobody has answered yet", async () => {
+    const event = await createEvent();
+    const [first] = event.timeOptions;
+
+    const response = await editEvent(event, [
+      { id: first.id, date: first.date, startTime: first.startTime },
+      { date: "2030-12-05", startTime: "18:00" },
+    ]);
+
+    expect(response.status).toBe(200);
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+    expect(body.participantCount).toBe(0);
+    expect(body.timeOptions.map((option: { date: string; startTime: string }) => `${option.date} ${option.startTime}`))
+      .toEqual(["2030-12-01 19:00", "2030-12-05 18:00"]);
+    for (const option of body.timeOptions) {
+      expect(option.availabilityCount).toEqual({ available: 0, maybe: 0, unavailable: 0, total: 0 });
+    }
+  });
+});
+
+describe("POST /api/events/:shareId/confirm", () => {
+  function confirm(event: { shareId: string; adminToken: string }, body: object = {}) {
+    return request(app).post(`/api/events/${event.shareId}/confirm`).set("X-Admin-Token", event.adminToken).send(body);
+  }
+
+  it("confirms the chosen option", async () => {
+    const event = await createEvent();
+    const [, second] = event.timeOptions;
+
+    const response = await confirm(event, { timeOptionId: second.id });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: "confirmed", confirmedTimeOptionId: second.id });
+    expect(response.body).not.toHaveProperty("adminToken");
+  });
+
+  it("rejects an unknown option and another event's option", async () => {
+    const event = await createEvent();
+    const other = await createEvent();
+
+    for (const timeOptionId of [999_999, other.timeOptions[0].id]) {
+      const response = await confirm(event, { timeOptionId });
+      expect(response.status).toBe(400);
+      expect(response.body.fieldErrors).toEqual({ timeOptionId: ["Unknown time option"] });
+    }
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.confirmedTimeOptionId).toBeNull();
+  });
+
+  it("falls back to the earliest best-supported option without an id", async () => {
+    const event = await createEvent({
+      ...dinner,
+      timeOptions: [...dinner.timeOptions, { date: "2030-12-03", startTime: "19:00" }],
+    });
+    const [first, second, third] = event.timeOptions;
+    expect((await confirm(event)).status).toBe(409);
+
+    // The second and third options tie, so the earlier one wins
+    await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [
+        { timeOptionId: first.id, status: "unavailable" },
+        { timeOptionId: third.id, status: "available" },
+        { timeOptionId: second.id, status: "available" },
+      ],
+    });
+    const response = await confirm(event);
+
+    expect(response.status).toBe(200);
+    expect(response.body.confirmedTimeOptionId).toBe(second.id);
+  });
+
+  it("reopens the event when an edit removes the confirmed option", async () => {
+    const event = await createEvent();
+    const [first, second] = event.timeOptions;
+    await confirm(event, { timeOptionId: second.id });
+
+    const edited = await request(app)
+      .put(`/api/events/${event.shareId}`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ event: dinner.event, timeOptions: [{ id: first.id, date: first.date, startTime: first.startTime }] });
+
+    expect(edited.status).toBe(200);
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+    expect(body).toMatchObject({ status: "open", confirmedTimeOptionId: null, confirmedAt: null });
+  });
+});
+
+describe("POST /api/events/:shareId/status", () => {
+  function setStatus(event: { shareId: string; adminToken: string }, status: string) {
+    return request(app).post(`/api/events/${event.shareId}/status`).set("X-Admin-Token", event.adminToken).send({ status });
+  }
+
+  it("opens a draft", async () => {
+    const event = await createEvent({ ...dinner, status: "draft" });
+
+    const response = await setStatus(event, "open");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: "open", sequence: event.sequence + 1 });
+  });
+
+  it("reopens a confirmed event and drops the chosen time", async () => {
+    const event = await createEvent();
+    await request(app).post(`/api/events/${event.shareId}/confirm`).set("X-Admin-Token", event.adminToken).send({ timeOptionId: event.timeOptions[0].id });
+
+    const response = await setStatus(event, "open");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: "open", confirmedTimeOptionId: null, confirmedAt: null });
+  });
+
+  it("keeps a cancelled event cancelled", async () => {
+    const event = await createEvent();
+    await request(app).post(`/api/events/${event.shareId}/cancel`).set("X-Admin-Token", event.adminToken).send({});
+
+    for (const status of ["draft", "open", "closed"]) {
+      const response = await setStatus(event, status);
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe(`A cancelled event can't be changed to ${status}`);
+    }
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.status).toBe("cancelled");
+  });
+
+  it("refuses a draft to closed", async () => {
+    const event = await createEvent({ ...dinner, status: "draft" });
+
+    const response = await setStatus(event, "closed");
+
+    expect(response.status).toBe(409);
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.status).toBe("draft");
+  });
+
+  it("doesn't overwrite a cancel that lands between the check and the write", async () => {
+    // Cancels the event just before every status change, as a concurrent request would
+    class RacingStorage extends MemStorage {
+      async setEventStatus(eventId: number, from: EventStatus, to: EventStatus) {
+        await this.cancelEvent(eventId, "Venue closed");
+        return super.setEventStatus(eventId, from, to);
+      }
+    }
+    app = express();
+    await registerRoutes(app, new RacingStorage());
+    const event = await createEvent();
+
+    const response = await setStatus(event, "closed");
+
+    expect(response.status).toBe(409);
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body).toMatchObject({
+      status: "cancelled",
+      cancellationReason: "Venue closed",
+    });
+  });
+});
+
+describe("POST /api/events/:shareId/cancel", () => {
+  async function cancelledEvent() {
+    const event = await createEvent();
+    const ann = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [{ timeOptionId: event.timeOptions[0].id, status: "available" }],
+    });
+    const response = await request(app)
+      .post(`/api/events/${event.shareId}/cancel`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ reason: "Venue closed" });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: "cancelled", cancellationReason: "Venue closed" });
+    return { event, ann: ann.body };
+  }
+
+  it("refuses new responses and changes to existing ones", async () => {
+    const { event, ann } = await cancelledEvent();
+
+    const newResponse = await participate(event.shareId, {
+      participant: { name: "Bob" },
+      availability: [{ timeOptionId: event.timeOptions[0].id, status: "available" }],
+    });
+    const changedResponse = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      editToken: ann.editToken,
+      availability: [{ timeOptionId: event.timeOptions[0].id, status: "unavailable" }],
+    });
+
+    for (const response of [newResponse, changedResponse]) {
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe("This event has been cancelled");
+    }
+    const read = await request(app).get(`/api/events/${event.shareId}`);
+    expect(read.body.participantCount).toBe(1);
+    expect(read.body.timeOptions[0].availabilityCount.available).toBe(1);
+  });
+
+  it("refuses edits to the event", async () => {
+    const { event } = await cancelledEvent();
+
+    const response = await request(app)
+      .put(`/api/events/${event.shareId}`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ event: { ...dinner.event, title: "Team Lunch" }, timeOptions: dinner.timeOptions });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe("Cancelled events can't be edited");
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.title).toBe("Team Dinner");
+  });
+});
+
+describe("DELETE /api/events/:shareId", () => {
+  it("removes the event with its options and answers", async () => {
+    const event = await createEvent();
+    const ann = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: event.timeOptions.map((option: { id: number }) => ({ timeOptionId: option.id, status: "available" })),
+    });
+
+    const response = await request(app).delete(`/api/events/${event.shareId}`).set("X-Admin-Token", event.adminToken);
+
+    expect(response.status).toBe(200);
+    expect((await request(app).get(`/api/events/${event.shareId}`)).status).toBe(404);
+    expect(await storage.getParticipantsByEventId(event.id)).toEqual([]);
+    expect(await storage.getAvailabilityByParticipant(ann.body.participantId)).toEqual([]);
+    for (const option of event.timeOptions) {
+      expect(await storage.getAvailabilityByTimeOption(option.id)).toEqual([]);
+    }
+  });
+});
+
+describe("DELETE /api/events/:shareId/participants/:participantId", () => {
+  async function eventWithTwoResponses() {
+    const event = await createEvent();
+    const respond = (name: string) => participate(event.shareId, {
+      participant: { name },
+      availability: [{ timeOptionId: event.timeOptions[0].id, status: "available" }],
+    });
+    const ann = (await respond("Ann")).body;
+    const bob = (await respond("Bob")).body;
+    return { event, ann, bob };
+  }
+
+  it("lets a participant remove their own response with their edit token", async () => {
+    const { event, ann } = await eventWithTwoResponses();
+
+    const response = await request(app)
+      .delete(`/api/events/${event.shareId}/participants/${ann.participantId}`)
+      .set("X-Edit-Token", ann.editToken);
+
+    expect(response.status).toBe(200);
+    const read = await request(app).get(`/api/events/${event.shareId}`);
+    expect(read.body.participantCount).toBe(1);
+    expect(read.body.timeOptions[0].participants.map((participant: { name: string }) => participant.name)).toEqual(["Bob"]);
+  });
+
+  it("refuses someone else's edit token", async () => {
+    const { event, ann, bob } = await eventWithTwoResponses();
+
+    const response = await request(app)
+      .delete(`/api/events/${event.shareId}/participants/${ann.participantId}`)
+      .set("X-Edit-Token", bob.editToken);
+
+    expect(response.status).toBe(403);
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.participantCount).toBe(2);
+  });
+});
+
+describe("POST /api/events/:shareId/participate", () => {
+  it("saves a response and returns the participant's edit token", async () => {
+    const event = await createEvent();
+    const [first, second] = event.timeOptions;
+
+    const response = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [
+        { timeOptionId: first.id, status: "available" },
+        { timeOptionId: second.id, status: "maybe" },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, participantId: expect.any(Number), editToken: expect.any(String) });
+  });
+
+  it("takes an answer for every slot of the largest grid", async () => {
+    const event = await createEvent({
+      event: {
+        title: "Office hours",
+        duration: { unit: "minutes", value: 15 },
+        timeZone: "UTC",
+        kind: "grid",
+        gridConfig: { startDate: "2030-12-01", endDate: "2030-12-31", dayStartTime: "00:00", dayEndTime: "24:00", slotMinutes: 15 },
+      },
+    });
+    expect(event.timeOptions).toHaveLength(31 * 96);
+
+    // Like the grid page, unpainted cells are sent as unavailable
+    const body = {
+      participant: { name: "Ann" },
+      availability: event.timeOptions.map((option: { id: number }, index: number) => ({
+        timeOptionId: option.id,
+        status: index % 96 < 32 ? "unavailable" : index % 96 < 64 ? "maybe" : "available",
+      })),
+    };
+    expect(JSON.stringify(body).length).toBeGreaterThan(100 * 1024);
+
+    const response = await participate(event.shareId, body);
+
+    expect(response.status).toBe(200);
+    const { body: saved } = await request(app).get(`/api/events/${event.shareId}`);
+    expect(saved.timeOptions.every((option: { availabilityCount: { total: number } }) => option.availabilityCount.total === 1)).toBe(true);
+  });
+
+  it("responds 404 for an unknown event", async () => {
+    const response = await participate("does-not-exist", {
+      participant: { name: "Ann" },
+      availability: [],
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("refuses a name that's already taken and suggests another", async () => {
+    const event = await createEvent();
+    const availability = [{ timeOptionId: event.timeOptions[0].id, status: "available" }];
+    await participate(event.shareId, { participant: { name: "Ann" }, availability });
+
+    const response = await participate(event.shareId, { participant: { name: "ann" }, availability });
+
+    expect(response.status).toBe(409);
+    expect(response.body.fieldErrors).toEqual({ "participant.name": ["This name is already taken"] });
+    expect(response.body.suggestedName).toEqual(expect.any(String));
+    expect(response.body.suggestedName.toLowerCase()).not.toBe("ann");
+  });
+
+  it("replaces a returning participant's answers when they send their edit token", async () => {
+    const event = await createEvent();
+    const [first, second] = event.timeOptions;
+    const created = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [
+        { timeOptionId: first.id, status: "available" },
+        { timeOptionId: second.id, status: "available" },
+      ],
+    });
+
+    const resubmitted = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      editToken: created.body.editToken,
+      availability: [{ timeOptionId: second.id, status: "unavailable" }],
+    });
+
+    expect(resubmitted.status).toBe(200);
+    expect(resubmitted.body.participantId).toBe(created.body.participantId);
+
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+    expect(body.participantCount).toBe(1);
+    expect(body.timeOptions[0].participants).toEqual([]);
+    expect(body.timeOptions[1].participants).toEqual([{ id: created.body.participantId, name: "Ann", status: "unavailable" }]);
+  });
+
+  it("rejects an edit token that doesn't belong to anyone", async () => {
+    const event = await createEvent();
+
+    const response = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      editToken: "not-a-real-token",
+      availability: [],
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("rejects a missing name and an unknown status with field errors", async () => {
+    const event = await createEvent();
+
+    const response = await participate(event.shareId, {
+      participant: { name: "  " },
+      availability: [{ timeOptionId: event.timeOptions[0].id, status: "sometimes" }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.fieldErrors).toHaveProperty(["participant.name"]);
+    expect(response.body.fieldErrors).toHaveProperty(["availability.0.status"]);
+  });
+
+  it("rejects time options from another event", async () => {
+    const event = await createEvent();
+    const other = await createEvent();
+
+    const response = await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [{ timeOptionId: other.timeOptions[0].id, status: "available" }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.fieldErrors).toEqual({ "availability.0": ["Unknown time option"] });
+  });
+});
+
+describe("POST /api/events/:shareId/calendar-suggestions", () => {
+  // Hour-long events at 19:00 UTC, repeating by the given rule since Dec 1, 1980
+  function calendar(rule: string, eventCount: number) {
+    const events = Array.from({ length: eventCount }, (_, index) =>
+      `BEGIN:VEVENT\r\nUID:${index}@example.com\r\nDTSTART:19801201T190000Z\r\nDURATION:PT1H\r\nRRULE:${rule}\r\nEND:VEVENT`);
+    return `BEGIN:VCALENDAR\r\n${events.join("\r\n")}\r\nEND:VCALENDAR`;
+  }
+
+  function suggest(shareId: string, body: string) {
+    return request(app).post(`/api/events/${shareId}/calendar-suggestions`).type("text/calendar").send(body);
+  }
+
+  it("marks options that clash with a long-running repeat as unavailable", async () => {
+    const event = await createEvent();
+
+    const response = await suggest(event.shareId, calendar("FREQ=YEARLY;COUNT=1000000", 1));
+
+    expect(response.status).toBe(200);
+    expect(response.body.suggestions.map((suggestion: { status: string }) => suggestion.status)).toEqual(["unavailable", "available"]);
+  });
+
+  it("responds 400 when the repeat rules need too much work to expand", async () => {
+    const event = await createEvent();
+
+    const response = await suggest(event.shareId, calendar("FREQ=MONTHLY;BYDAY=MO;COUNT=1000000", 200));
+
+    expect(response.status).toBe(400);
+    expect(response.body.fieldErrors.calendar).toEqual([expect.any(String)]);
+  });
+});
+
+describe("response deadlines", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const ann = (event: { timeOptions: Array<{ id: number }> }) => ({
+    participant: { name: "Ann" },
+    availability: [{ timeOptionId: event.timeOptions[0].id, status: "available" }],
+  });
+
+  it("accepts responses before the deadline", async () => {
+    const event = await createEvent({ ...dinner, event: { ...dinner.event, responseDeadline: "2030-11-30T12:00:00.000Z" } });
+
+    const response = await participate(event.shareId, ann(event));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("refuses responses once the deadline has passed", async () => {
+    const event = await createEvent({ ...dinner, event: { ...dinner.event, responseDeadline: "2030-11-30T12:00:00.000Z" } });
+
+    // Only Date is faked, so supertest's own timers keep running
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2030-11-30T12:00:01.000Z"));
+    const response = await participate(event.shareId, ann(event));
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({
+      error: "The response deadline for this event has passed",
+      responseDeadline: "2030-11-30T12:00:00.000Z",
+    });
+    expect((await request(app).get(`/api/events/${event.shareId}`)).body.participantCount).toBe(0);
+  });
+});
+
+describe("availability aggregation", () => {
+  it("counts each option's answers and the distinct participants", async () => {
+    const event = await createEvent();
+    const [first, second] = event.timeOptions;
+    const answers: Array<[string, string, string | null]> = [
+      ["Ann", "available", "available"],
+      ["Bob", "available", "maybe"],
+      ["Cat", "maybe", "unavailable"],
+      ["Dan", "unavailable", null],
+    ];
+    for (const [name, firstStatus, secondStatus] of answers) {
+      const response = await participate(event.shareId, {
+        participant: { name },
+        availability: [
+          { timeOptionId: first.id, status: firstStatus },
+          ...(secondStatus ? [{ timeOptionId: second.id, status: secondStatus }] : []),
+        ],
+      });
+      expect(response.status).toBe(200);
+    }
+
+    const { body } = await request(app).get(`/api/events/${event.shareId}`);
+
+    expect(body.participantCount).toBe(4);
+    const [firstOption, secondOption] = body.timeOptions;
+    expect(firstOption.availabilityCount).toEqual({ available: 2, maybe: 1, unavailable: 1, total: 4 });
+    expect(secondOption.availabilityCount).toEqual({ available: 1, maybe: 1, unavailable: 1, total: 3 });
+    expect(secondOption.participants.map((participant: { name: string }) => participant.name).sort()).toEqual(["Ann", "Bob", "Cat"]);
+  });
+});
+
+describe("templates", () => {
+  async function saveTemplate(name = "Dinner format") {
+    const event = await createEvent();
+    const response = await request(app)
+      .post(`/api/events/${event.shareId}/template`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ template: { name } });
+    expect(response.status).toBe(200);
+    return response.body;
+  }
+
+  it("hands out the template's admin token only when it's saved", async () => {
+    const template = await saveTemplate();
+
+    expect(template).toMatchObject({ name: "Dinner format", title: "Team Dinner", shareId: expect.any(String), adminToken: expect.any(String) });
+
+    const fetched = await request(app).get(`/api/templates/${template.shareId}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.name).toBe("Dinner format");
+    expect(fetched.body).not.toHaveProperty("adminToken");
+  });
+
+  it("only lists the templates whose share ids are asked for", async () => {
+    const mine = await saveTemplate("Mine");
+    await saveTemplate("Someone else's");
+
+    const unfiltered = await request(app).get("/api/templates");
+    expect(unfiltered.status).toBe(200);
+    expect(unfiltered.body).toEqual([]);
+
+    const listed = await request(app).get(`/api/templates?shareIds=${mine.shareId},unknown`);
+    expect(listed.status).toBe(200);
+    expect(listed.body.map((template: { name: string }) => template.name)).toEqual(["Mine"]);
+    expect(listed.body[0]).not.toHaveProperty("adminToken");
+  });
+
+  it("deletes a template only with its admin token", async () => {
+    const template = await saveTemplate();
+    const other = await saveTemplate("Other");
+
+    expect((await request(app).delete(`/api/templates/${template.shareId}`)).status).toBe(401);
+    expect((await request(app).delete(`/api/templates/${template.shareId}`).set("X-Admin-Token", other.adminToken)).status).toBe(403);
+
+    const deleted = await request(app).delete(`/api/templates/${template.shareId}`).set("X-Admin-Token", template.adminToken);
+    expect(deleted.status).toBe(200);
+    expect((await request(app).get(`/api/templates/${template.shareId}`)).status).toBe(404);
+    expect((await request(app).get(`/api/templates/${other.shareId}`)).status).toBe(200);
+  });
+});
+
+
+describe("GET /api/events/:shareId/feed.ics", () => {
+  async function readFeed(shareId: string) {
+    const response = await request(app).get(`/api/events/${shareId}/feed.ics`);
+    expect(response.status).toBe(200);
+    return {
+      sequences: Array.from(response.text.matchAll(/^SEQUENCE:(\d+)\r$/gm), match => Number(match[1])),
+      statuses: Array.from(response.text.matchAll(/^STATUS:(\w+)\r$/gm), match => match[1]),
+    };
+  }
+
+  it("raises SEQUENCE when the event is edited, so subscribed calendars update", async () => {
+    const event = await createEvent();
+    const before = await readFeed(event.shareId);
+
+    await request(app)
+      .put(`/api/events/${event.shareId}`)
+      .set("X-Admin-Token", event.adminToken)
+      .send({ event: dinner.event, timeOptions: [{ id: event.timeOptions[0].id, date: "2030-12-01", startTime: "20:00" }] });
+    const after = await readFeed(event.shareId);
+
+    expect(before.sequences).toHaveLength(2);
+    expect(after.sequences).toHaveLength(1);
+    expect(after.sequences[0]).toBeGreaterThan(before.sequences[0]);
+  });
+
+  it("marks every entry cancelled once the event is called off", async () => {
+    const event = await createEvent();
+    const before = await readFeed(event.shareId);
+
+    await request(app).post(`/api/events/${event.shareId}/cancel`).set("X-Admin-Token", event.adminToken).send({});
+    const after = await readFeed(event.shareId);
+
+    expect(before.statuses).toEqual(["TENTATIVE", "TENTATIVE"]);
+    expect(after.statuses).toEqual(["CANCELLED", "CANCELLED"]);
+    expect(after.sequences[0]).toBeGreaterThan(before.sequences[0]);
+  });
+});
+
+describe("results exports", () => {
+  const formulaName = '=HYPERLINK("http://example.com","Open")';
+
+  // Ann answers both options; the second participant, named like a formula, skips the second
+  async function answeredEvent() {
+    const event = await createEvent();
+    const [first, second] = event.timeOptions;
+    await participate(event.shareId, {
+      participant: { name: "Ann" },
+      availability: [{ timeOptionId: first.id, status: "available" }, { timeOptionId: second.id, status: "maybe" }],
+    });
+    await participate(event.shareId, {
+      participant: { name: formulaName },
+      availability: [{ timeOptionId: first.id, status: "unavailable" }],
+    });
+    return event;
+  }
+
+  it("writes a CSV with a byte order mark and formula-like names defused", async () => {
+    const event = await answeredEvent();
+
+    const response = await request(app).get(`/api/events/${event.shareId}/results.csv`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+    expect(response.text.startsWith("\uFEFF")).toBe(true);
+    const lines = response.text.slice(1).split("\r\n");
+    expect(lines[0]).toBe("Participant,2030-12-01 19:00-20:30 UTC,2030-12-02 19:00-20:30 UTC");
+    expect(lines[1]).toBe("Ann,Available,Maybe");
+    expect(lines[2]).toBe(`"'=HYPERLINK(""http://example.com"",""Open"")",Not available,`);
+  });
+
+  it("gives every participant's answer for every option as JSON", async () => {
+    const event = await answeredEvent();
+    const [first, second] = event.timeOptions;
+
+    const response = await request(app).get(`/api/events/${event.shareId}/results.json`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.timeOptions.map((option: { id: number }) => option.id)).toEqual([first.id, second.id]);
+    expect(response.body.participants.map(({ name, responses }: { name: string; responses: object }) => ({ name, responses }))).toEqual([
+      { name: "Ann", responses: { [first.id]: "available", [second.id]: "maybe" } },
+      { name: formulaName, responses: { [first.id]: "unavailable", [second.id]: null } },
+    ]);
+    expect(response.body.timeOptions[0].totals).toEqual({ available: 1, maybe: 0, unavailable: 1, noAnswer: 0 });
+    expect(response.body.timeOptions[1].totals).toEqual({ available: 0, maybe: 1, unavailable: 0, noAnswer: 1 });
+  });
+
+  it("gives every participant's answer for every option in the workbook", async () => {
+    const event = await answeredEvent();
+
+    const response = await request(app)
+      .get(`/api/events/${event.shareId}/results.xlsx`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(response.status).toBe(200);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(response.body);
+    const sheet = workbook.getWorksheet("Responses")!;
+    const row = (number: number) => [1, 2, 3].map(column => sheet.getRow(number).getCell(column).text);
+    expect(row(1)).toEqual(["Participant", "2030-12-01 19:00-20:30 UTC", "2030-12-02 19:00-20:30 UTC"]);
+    expect(row(2)).toEqual(["Ann", "Available", "Maybe"]);
+    expect(row(3)).toEqual([formulaName, "Not available", ""]);
+    // Stored as text, so Excel shows the name instead of running it
+    expect(sheet.getCell("A3").type).toBe(ExcelJS.ValueType.String);
+  });
+});
@@ -1,27 +1,363 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { timingSafeEqual } from "crypto";
+import type { IStorage } from "./storage";
+import { buildResultsWorkbook } from "./results-workbook";
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError, sendError } from "./errors";
 import { z } from "zod";
-import { insertEventSchema, insertParticipantSchema, insertAvailabilitySchema } from "@shared/schema";
+import { insertEventSchema, insertParticipantSchema, insertTemplateSchema, type Event, type InsertEvent, type EventWithDetails, type Participant, type ParticipantResponse, type TimeOption, type Template, type CalendarSuggestions } from "@shared/schema";
+import { getBestTimeSlotIds, pickBestTimeSlotId } from "@shared/scheduling";
+import { addDays, calculateEndTime, isAllDay, isMultiDay } from "@shared/duration";
+import { generateGridSlots, getGridDates } from "@shared/grid";
+import { recurrenceSchema, weekdayNames, weekdayOf, weekdaySchema } from "@shared/weekday";
+import { seriesRuleSchema, shiftDate, type SeriesRule } from "@shared/series";
+import { patternFromEvent } from "@shared/template";
+import { isPastDeadline } from "@shared/deadline";
+import { canChangeStatus, statusLabels } from "@shared/status";
+import { buildCalendar, calendarFileName, downloadFileName, parseBusyIntervals, type CalendarEntry } from "@shared/ical";
+import { buildResultsExport, formatResultsCsv } from "@shared/results";
+import { getOptionInstants, timeZoneSchema } from "@shared/time-zone";
 
+// End times are always derived from the event duration, never taken from the client
+// Dated events send a date, weekday polls a weekday
+const timeOptionInputSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  weekday: weekdaySchema.optional(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be in HH:MM format").optional(),
+});
+
+// Grid events send no time options; their slots come from event.gridConfig.
+// A draft can be prepared before it's opened for responses.
 const createEventRequestSchema = z.object({
   event: insertEventSchema,
-  timeOptions: z.array(z.object({
-    date: z.string(),
-    startTime: z.string(),
-    endTime: z.string(),
-  })),
+  timeOptions: z.array(timeOptionInputSchema).default([]),
+  status: z.enum(["draft", "open"]).default("open"),
+});
+
+const updateEventRequestSchema = z.object({
+  event: insertEventSchema,
+  timeOptions: z.array(timeOptionInputSchema.extend({
+    id: z.number().optional(),
+  })).default([]),
+});
+
+const confirmEventRequestSchema = z.object({
+  timeOptionId: z.number().optional(),
+  recurrence: recurrenceSchema.optional(),
+});
+
+// "confirmed" and "cancelled" have their own routes
+const setStatusRequestSchema = z.object({
+  status: z.enum(["draft", "open", "closed"]),
+});
+
+const cancelEventRequestSchema = z.object({
+  reason: z.string().trim().max(500, "Keep the reason under 500 characters").optional(),
+});
+
+// null removes the deadline, reopening a poll that had closed
+const deadlineRequestSchema = z.object({
+  responseDeadline: z.coerce.date().nullable(),
+});
+
+const startSeriesRequestSchema = z.object({
+  rule: seriesRuleSchema,
+});
+
+// Without a timeOptionId the confirmed time is exported; other options are for the organizer
+const calendarQuerySchema = z.object({
+  timeOptionId: z.coerce.number().int().optional(),
+});
+
+// Floating times and unknown zones in an imported calendar are read in the participant's zone
+const calendarSuggestionsQuerySchema = z.object({
+  timeZone: timeZoneSchema.default("UTC"),
+});
+
+const saveTemplateRequestSchema = z.object({
+  template: insertTemplateSchema,
+});
+
+// Templates are listed by the share ids the caller already holds, e.g. the ones their browser saved
+const templateListQuerySchema = z.object({
+  shareIds: z.string().default("")
+    .transform(value => value.split(",").map(shareId => shareId.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).max(100, "Ask for at most 100 templates at a time")),
 });
 
 const participateRequestSchema = z.object({
   participant: insertParticipantSchema.omit({ eventId: true }),
+  editToken: z.string().optional(),
   availability: z.array(z.object({
     timeOptionId: z.number(),
     status: z.enum(["available", "maybe", "unavailable"]),
-  })),
+  })).refine(
+    list => new Set(list.map(item => item.timeOptionId)).size === list.length,
+    "Each time option can only be answered once",
+  ),
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// Suggests a free variant of a taken name, e.g. "Alice (2)"
+function disambiguateName(name: string, takenNames: string[]): string {
+  const taken = new Set(takenNames.map(takenName => takenName.toLowerCase()));
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`.toLowerCase())) {
+    suffix++;
+  }
+  return `${name} (${suffix})`;
+}
+
+// The admin token is only ever handed out once, in the event creation response
+function withoutAdminToken<T extends Pick<Event, "adminToken">>(event: T): Omit<T, "adminToken"> {
+  const { adminToken: _adminToken, ...publicEvent } = event;
+  return publicEvent;
+}
+
+async function requireEvent(storage: IStorage, shareId: string): Promise<EventWithDetails> {
+  const event = await storage.getEventByShareId(shareId);
+  if (!event) {
+    throw new NotFoundError("Event not found");
+  }
+  return event;
+}
+
+// Loads the event for an organizer-only action, checking the X-Admin-Token header
+async function requireAdmin(storage: IStorage, req: Request): Promise<EventWithDetails> {
+  const event = await requireEvent(storage, req.params.shareId);
+
+  const adminToken = req.get("X-Admin-Token");
+  if (!adminToken) {
+    throw new UnauthorizedError("Admin token required");
+  }
+
+  const eventRecord = await storage.getEvent(event.id);
+  if (!eventRecord || !tokensMatch(eventRecord.adminToken, adminToken)) {
+    throw new ForbiddenError("Invalid admin token");
+  }
+
+  return event;
+}
+
+async function requireTemplate(storage: IStorage, shareId: string): Promise<Template> {
+  const template = await storage.getTemplateByShareId(shareId);
+  if (!template) {
+    throw new NotFoundError("Template not found");
+  }
+  return template;
+}
+
+// Whether the request carries the event's admin token, for things organizers may do early
+async function hasAdminToken(storage: IStorage, req: Request, event: EventWithDetails): Promise<boolean> {
+  const adminToken = req.get("X-Admin-Token");
+  if (!adminToken) return false;
+  const eventRecord = await storage.getEvent(event.id);
+  return !!eventRecord && tokensMatch(eventRecord.adminToken, adminToken);
+}
+
+// Loads the participant named in the URL, if they belong to the event
+async function findParticipant(storage: IStorage, req: Request, event: EventWithDetails): Promise<Participant> {
+  const participantId = parseInt(req.params.participantId, 10);
+  const eventParticipants = await storage.getParticipantsByEventId(event.id);
+  const participant = eventParticipants.find(p => p.id === participantId);
+  if (!participant) {
+    throw new NotFoundError("Participant not found");
+  }
+  return participant;
+}
+
+// Loads a participant of the event for an action only they may take, checking the X-Edit-Token header
+async function requireParticipant(storage: IStorage, req: Request, event: EventWithDetails): Promise<Participant> {
+  const participant = await findParticipant(storage, req, event);
+
+  const editToken = req.get("X-Edit-Token");
+  if (!editToken) {
+    throw new UnauthorizedError("Edit token required");
+  }
+  if (!tokensMatch(participant.editToken, editToken)) {
+    throw new ForbiddenError("Invalid edit token");
+  }
+
+  return participant;
+}
+
+// Fills in start and end times from the duration, and keeps only the date or the weekday
+// depending on the kind of event; all-day events span the whole day
+function resolveTimeOptions<T extends z.infer<typeof timeOptionInputSchema>>(event: InsertEvent, timeOptions: T[]) {
+  const fieldErrors: Record<string, string[]> = {};
+  const resolved = timeOptions.map((option, index) => {
+    const placement = event.kind === "weekly"
+      ? { date: null, weekday: option.weekday ?? null }
+      : { date: option.date ?? null, weekday: null };
+    if (event.kind === "weekly" && option.weekday === undefined) {
+      fieldErrors[`timeOptions.${index}.weekday`] = ["Weekday is required"];
+    } else if (event.kind !== "weekly" && !option.date) {
+      fieldErrors[`timeOptions.${index}.date`] = ["Date is required"];
+    }
+
+    if (isAllDay(event.duration)) {
+      return { ...option, ...placement, startTime: "00:00", endTime: "23:59" };
+    }
+    if (!option.startTime) {
+      fieldErrors[`timeOptions.${index}.startTime`] = ["Start time is required"];
+      return { ...option, ...placement, startTime: "", endTime: "" };
+    }
+    return { ...option, ...placement, startTime: option.startTime, endTime: calculateEndTime(option.startTime, event.duration) };
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+  return resolved;
+}
+
+// Grid events take their duration from the slot size; other kinds never carry grid settings
+function normalizeEvent(event: InsertEvent): InsertEvent {
+  if (event.kind === "weekly" && isMultiDay(event.duration)) {
+    throw new ValidationError({ "event.duration": ["Weekday options can last at most one day"] });
+  }
+  if (event.kind !== "grid") {
+    return { ...event, kind: event.kind ?? "poll", gridConfig: null };
+  }
+  if (!event.gridConfig) {
+    throw new ValidationError({ "event.gridConfig": ["Pick a date range and daily window for the grid"] });
+  }
+  return { ...event, duration: { unit: "minutes", value: event.gridConfig.slotMinutes } };
+}
+
+// Responses are only taken while an event is open and its deadline hasn't passed;
+// the organizer may fill in their own answers while it's still a draft
+function assertAcceptsResponses(event: EventWithDetails, isOrganizer: boolean) {
+  switch (event.status) {
+    case "draft":
+      if (isOrganizer) return;
+      throw new ConflictError("This event isn't open for responses yet");
+    case "closed":
+      throw new ConflictError("Responses for this event are closed");
+    case "confirmed":
+      throw new ConflictError("This event has already been scheduled");
+    case "cancelled":
+      throw new ConflictError("This event has been cancelled");
+  }
+  if (isPastDeadline(event.responseDeadline)) {
+    throw new ConflictError("The response deadline for this event has passed", { responseDeadline: event.responseDeadline });
+  }
+}
+
+function assertNotCancelled(event: EventWithDetails, action: string) {
+  if (event.status === "cancelled") {
+    throw new ConflictError(`Cancelled events can't be ${action}`);
+  }
+}
+
+// A deadline that has already passed would close the poll the moment it's set
+function assertFutureDeadline(deadline: Date | null | undefined, field: string) {
+  if (deadline && isPastDeadline(deadline)) {
+    throw new ValidationError({ [field]: ["The response deadline must be in the future"] });
+  }
+}
+
+// Grid slots are generated from the grid settings; poll options come from the request
+function buildTimeOptions<T extends z.infer<typeof timeOptionInputSchema>>(event: InsertEvent, timeOptions: T[]) {
+  if (event.kind === "grid" && event.gridConfig) {
+    return generateGridSlots(event.gridConfig);
+  }
+  if (timeOptions.length === 0) {
+    throw new ValidationError({ timeOptions: ["Add at least one time option"] });
+  }
+  return resolveTimeOptions(event, timeOptions);
+}
+
+// Copies an event into the next round of its series, moving every date by the rule.
+// Weekday options have no dates and carry over unchanged.
+function buildNextRound(event: EventWithDetails, rule: SeriesRule) {
+  const gridConfig = event.gridConfig && {
+    ...event.gridConfig,
+    startDate: shiftDate(event.gridConfig.startDate, rule),
+    endDate: addDays(shiftDate(event.gridConfig.startDate, rule), getGridDates(event.gridConfig).length - 1),
+  };
+  const nextEvent: InsertEvent = {
+    title: event.title,
+    description: event.description,
+    duration: event.duration,
+    timeZone: event.timeZone,
+    kind: event.kind,
+    gridConfig,
+  };
+
+  const timeOptions = event.timeOptions.map(option => ({
+    date: option.date !== null ? shiftDate(option.date, rule) : undefined,
+    weekday: option.weekday ?? undefined,
+    startTime: option.startTime,
+  }));
+  return { event: nextEvent, timeOptions: buildTimeOptions(nextEvent, timeOptions) };
+}
+
+// A calendar entry for one of the event's options, linking back to the event page on this host
+function calendarEntry(req: Request, event: EventWithDetails, option: TimeOption, entry: Pick<CalendarEntry, "uid" | "status"> & Partial<CalendarEntry>): CalendarEntry {
+  return {
+    title: event.title,
+    description: event.description,
+    url: `${req.protocol}://${req.get("host")}/event/${event.shareId}`,
+    duration: event.duration,
+    timeZone: event.timeZone,
+    option,
+    sequence: event.sequence,
+    ...entry,
+  };
+}
+
+// The confirmed time as a normal entry, or each option as a tentative hold while the poll runs.
+// Grid events hold only their best-supported slots, not every slot in the grid.
+function feedEntries(req: Request, event: EventWithDetails): CalendarEntry[] {
+  const cancelled = event.status === "cancelled";
+  const confirmedOption = event.timeOptions.find(option => option.id === event.confirmedTimeOptionId);
+  if (confirmedOption) {
+    return [calendarEntry(req, event, confirmedOption, {
+      uid: `${event.shareId}@hangtime`,
+      recurrence: event.recurrence,
+      status: cancelled ? "CANCELLED" : "CONFIRMED",
+    })];
+  }
+  if (event.status === "draft") {
+    return [];
+  }
+
+  const bestIds = getBestTimeSlotIds(event.timeOptions);
+  const heldOptions = event.kind === "grid"
+    ? event.timeOptions.filter(option => bestIds.includes(option.id))
+    : event.timeOptions;
+  return heldOptions.map(option => calendarEntry(req, event, option, {
+    uid: `${event.shareId}-${option.id}@hangtime`,
+    title: `${event.title} (tentative)`,
+    status: cancelled ? "CANCELLED" : "TENTATIVE",
+  }));
+}
+
+// Rejects time option ids that don't belong to the event
+function assertKnownTimeOptions(event: EventWithDetails, field: string, ids: Array<number | undefined>) {
+  const existingIds = new Set(event.timeOptions.map(option => option.id));
+  const fieldErrors: Record<string, string[]> = {};
+  ids.forEach((id, index) => {
+    if (id !== undefined && !existingIds.has(id)) {
+      fieldErrors[`${field}.${index}`] = ["Unknown time option"];
+    }
+  });
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(fieldErrors);
+  }
+}
+
+export async function registerRoutes(app: Express, storage: IStorage): Promise<Server> {
+  // Responses carry an answer for every option, and the largest grid (31 days of 15-minute
+  // slots) has nearly 3,000, about 140 kB of JSON. Other requests keep the default 100 kB limit.
+  app.use("/api/events/:shareId/participate", express.json({ limit: "1mb" }));
+  app.use(express.json());
 
   // Health check endpoint for Railway
   app.get("/health", (_req, res) => {
@@ -31,64 +367,490 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create a new event
   app.post("/api/events", async (req, res) => {
     try {
-      const { event, timeOptions } = createEventRequestSchema.parse(req.body);
-      const createdEvent = await storage.createEvent(event, timeOptions);
+      const request = createEventRequestSchema.parse(req.body);
+      const event = normalizeEvent(request.event);
+      assertFutureDeadline(event.responseDeadline, "event.responseDeadline");
+      const createdEvent = await storage.createEvent(event, buildTimeOptions(event, request.timeOptions), { status: request.status });
       res.json(createdEvent);
     } catch (error) {
-      console.error("Error creating event:", error);
-      res.status(400).json({ error: "Invalid request data" });
+      sendError(res, error, "Error creating event");
     }
   });
 
   // Get event details by share ID
   app.get("/api/events/:shareId", async (req, res) => {
     try {
-      const { shareId } = req.params;
-      const event = await storage.getEventByShareId(shareId);
-      
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
-      
+      const event = await requireEvent(storage, req.params.shareId);
       res.json(event);
     } catch (error) {
-      console.error("Error fetching event:", error);
-      res.status(500).json({ error: "Internal server error" });
+      sendError(res, error, "Error fetching event");
+    }
+  });
+
+  // Download the confirmed time, or an option the organizer picks, as an .ics file
+  app.get("/api/events/:shareId/calendar.ics", async (req, res) => {
+    try {
+      const { timeOptionId } = calendarQuerySchema.parse(req.query);
+      const event = timeOptionId !== undefined
+        ? await requireAdmin(storage, req)
+        : await requireEvent(storage, req.params.shareId);
+
+      const chosenId = timeOptionId ?? event.confirmedTimeOptionId;
+      if (chosenId === null) {
+        throw new ConflictError("No time has been confirmed for this event yet");
+      }
+      const chosenOption = event.timeOptions.find(option => option.id === chosenId);
+      if (!chosenOption) {
+        throw new ValidationError({ timeOptionId: ["Unknown time option"] });
+      }
+
+      const isConfirmedOption = chosenOption.id === event.confirmedTimeOptionId;
+      const calendar = buildCalendar([calendarEntry(req, event, chosenOption, {
+        uid: `${event.shareId}@hangtime`,
+        recurrence: isConfirmedOption ? event.recurrence : null,
+        status: event.status === "cancelled" ? "CANCELLED" : isConfirmedOption ? "CONFIRMED" : "TENTATIVE",
+      })]);
+
+      res.type("text/calendar; charset=utf-8");
+      res.attachment(calendarFileName(event.title));
+      res.send(calendar);
+    } catch (error) {
+      sendError(res, error, "Error exporting calendar file");
+    }
+  });
+
+  // Live feed for calendar subscriptions; calendar apps poll it and pick up reschedules and cancellations
+  app.get("/api/events/:shareId/feed.ics", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      const calendar = buildCalendar(feedEntries(req, event), { name: event.title, refreshHours: 1 });
+
+      res.type("text/calendar; charset=utf-8");
+      res.set("Cache-Control", "no-cache");
+      res.send(calendar);
+    } catch (error) {
+      sendError(res, error, "Error building calendar feed");
+    }
+  });
+
+  // Everyone's answers as a participant × option matrix with per-option totals, for spreadsheets
+  app.get("/api/events/:shareId/results.csv", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      res.type("text/csv; charset=utf-8");
+      res.attachment(downloadFileName(`${event.title} results`, "csv"));
+      res.send(formatResultsCsv(buildResultsExport(event)));
+    } catch (error) {
+      sendError(res, error, "Error exporting results");
+    }
+  });
+
+  // The same matrix as JSON, with option ids and raw dates and times for scripts
+  app.get("/api/events/:shareId/results.json", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      res.attachment(downloadFileName(`${event.title} results`, "json"));
+      res.json(buildResultsExport(event));
+    } catch (error) {
+      sendError(res, error, "Error exporting results");
+    }
+  });
+
+  // A formatted Excel workbook: colour-coded responses, the ranked summary and the event's details
+  app.get("/api/events/:shareId/results.xlsx", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      const workbook = await buildResultsWorkbook(event, `${req.protocol}://${req.get("host")}/event/${event.shareId}`);
+      res.attachment(downloadFileName(`${event.title} results`, "xlsx"));
+      res.send(workbook);
+    } catch (error) {
+      sendError(res, error, "Error exporting results");
+    }
+  });
+
+  // Update event details and time options
+  app.put("/api/events/:shareId", async (req, res) => {
+    try {
+      const request = updateEventRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+      assertNotCancelled(event, "edited");
+
+      const eventUpdate = normalizeEvent({ ...request.event, kind: request.event.kind ?? event.kind });
+      if (eventUpdate.kind !== event.kind) {
+        throw new ValidationError({ "event.kind": ["The event type can't be changed"] });
+      }
+
+      // An unchanged deadline may already have passed; a new one can't be in the past
+      if (eventUpdate.responseDeadline?.getTime() !== event.responseDeadline?.getTime()) {
+        assertFutureDeadline(eventUpdate.responseDeadline, "event.responseDeadline");
+      }
+
+      // Only options that already belong to this event may be referenced by id
+      assertKnownTimeOptions(event, "timeOptions", request.timeOptions.map(option => option.id));
+
+      // Regenerated grid slots keep their ids, and so their answers, wherever the grids overlap
+      const existingSlotIds = new Map(event.timeOptions.map(option => [`${option.date} ${option.startTime}`, option.id]));
+      const timeOptions = eventUpdate.kind === "grid"
+        ? buildTimeOptions(eventUpdate, []).map(slot => ({ ...slot, id: existingSlotIds.get(`${slot.date} ${slot.startTime}`) }))
+        : buildTimeOptions(eventUpdate, request.timeOptions);
+
+      const updatedEvent = await storage.updateEvent(event.id, eventUpdate, timeOptions);
+      if (!updatedEvent) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json(withoutAdminToken(updatedEvent));
+    } catch (error) {
+      sendError(res, error, "Error updating event");
+    }
+  });
+
+  // Delete an event along with its options and every response
+  app.delete("/api/events/:shareId", async (req, res) => {
+    try {
+      const event = await requireAdmin(storage, req);
+      if (!await storage.deleteEvent(event.id)) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "Error deleting event");
+    }
+  });
+
+  // Lock in the final time for an event
+  app.post("/api/events/:shareId/confirm", async (req, res) => {
+    try {
+      const { timeOptionId, recurrence } = confirmEventRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+      // A confirmed event can switch to another time without reopening first
+      if (event.status !== "confirmed" && !canChangeStatus(event.status, "confirmed")) {
+        throw new ConflictError(`${statusLabels[event.status]} events can't be confirmed`);
+      }
+
+      // Without an explicit choice, fall back to the best-supported option
+      const chosenId = timeOptionId ?? pickBestTimeSlotId(event.timeOptions);
+      if (chosenId === undefined) {
+        throw new ConflictError("No responses yet to pick a best time from");
+      }
+      const chosenOption = event.timeOptions.find(option => option.id === chosenId);
+      if (!chosenOption) {
+        throw new ValidationError({ timeOptionId: ["Unknown time option"] });
+      }
+
+      // Only a weekday pick can become a repeating schedule, starting on that weekday
+      if (recurrence && chosenOption.weekday === null) {
+        throw new ValidationError({ recurrence: ["Only weekday polls can be turned into a recurring schedule"] });
+      }
+      if (recurrence && chosenOption.weekday !== null && weekdayOf(recurrence.startDate) !== chosenOption.weekday) {
+        throw new ValidationError({ "recurrence.startDate": [`The schedule must start on a ${weekdayNames[chosenOption.weekday]}`] });
+      }
+
+      const confirmedEvent = await storage.confirmEvent(event.id, chosenId, recurrence);
+      if (!confirmedEvent) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json(withoutAdminToken(confirmedEvent));
+    } catch (error) {
+      sendError(res, error, "Error confirming event");
+    }
+  });
+
+  // Open, pause or close an event by hand
+  app.post("/api/events/:shareId/status", async (req, res) => {
+    try {
+      const { status } = setStatusRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+      if (!canChangeStatus(event.status, status)) {
+        throw new ConflictError(`A ${statusLabels[event.status].toLowerCase()} event can't be changed to ${statusLabels[status].toLowerCase()}`);
+      }
+
+      const updatedEvent = await storage.setEventStatus(event.id, event.status, status);
+      if (!updatedEvent) {
+        // Deleted, or moved on by another request since it was read
+        if (!await storage.getEvent(event.id)) {
+          throw new NotFoundError("Event not found");
+        }
+        throw new ConflictError("The event's status changed in the meantime. Reload it and try again");
+      }
+
+      res.json(withoutAdminToken(updatedEvent));
+    } catch (error) {
+      sendError(res, error, "Error changing event status");
+    }
+  });
+
+  // Call the event off, with an optional reason shown to participants
+  app.post("/api/events/:shareId/cancel", async (req, res) => {
+    try {
+      const { reason } = cancelEventRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+      assertNotCancelled(event, "cancelled again");
+
+      const cancelledEvent = await storage.cancelEvent(event.id, reason || null);
+      if (!cancelledEvent) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json(withoutAdminToken(cancelledEvent));
+    } catch (error) {
+      sendError(res, error, "Error cancelling event");
+    }
+  });
+
+  // Extend, set or remove the response deadline
+  app.post("/api/events/:shareId/deadline", async (req, res) => {
+    try {
+      const { responseDeadline } = deadlineRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+      assertNotCancelled(event, "reopened");
+      assertFutureDeadline(responseDeadline, "responseDeadline");
+
+      const updatedEvent = await storage.setResponseDeadline(event.id, responseDeadline);
+      if (!updatedEvent) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json(withoutAdminToken(updatedEvent));
+    } catch (error) {
+      sendError(res, error, "Error updating the response deadline");
+    }
+  });
+
+  // Mark an event as a series, or change how its next round is scheduled
+  app.post("/api/events/:shareId/series", async (req, res) => {
+    try {
+      const { rule } = startSeriesRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+
+      const seriesEvent = await storage.startSeries(event.id, rule);
+      if (!seriesEvent) {
+        throw new NotFoundError("Event not found");
+      }
+
+      res.json(withoutAdminToken(seriesEvent));
+    } catch (error) {
+      sendError(res, error, "Error starting series");
+    }
+  });
+
+  // List every round of the series the event belongs to, oldest first
+  app.get("/api/events/:shareId/series", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      if (event.seriesId === null) {
+        throw new NotFoundError("This event is not part of a series");
+      }
+
+      res.json(await storage.getSeriesInstances(event.seriesId));
+    } catch (error) {
+      sendError(res, error, "Error fetching series");
+    }
+  });
+
+  // Create the next round of a series from its latest round
+  app.post("/api/events/:shareId/series/next", async (req, res) => {
+    try {
+      const event = await requireAdmin(storage, req);
+      if (event.seriesId === null || !event.seriesRule) {
+        throw new ConflictError("Make this event a series before creating its next round");
+      }
+
+      // Only the latest round moves the series forward, so a repeated request can't skip a round
+      const instances = await storage.getSeriesInstances(event.seriesId);
+      const latest = instances[instances.length - 1];
+      if (latest && latest.id !== event.id) {
+        throw new ConflictError("A newer round of this series already exists", { latestShareId: latest.shareId });
+      }
+
+      const nextRound = buildNextRound(event, event.seriesRule);
+      const createdEvent = await storage.createEvent(nextRound.event, nextRound.timeOptions, {
+        seriesId: event.seriesId,
+        seriesRule: event.seriesRule,
+      });
+      res.json(createdEvent);
+    } catch (error) {
+      sendError(res, error, "Error creating the next round");
+    }
+  });
+
+  // Save an event's details and option pattern as a reusable template.
+  // The response is the only place the template's admin token is handed out.
+  app.post("/api/events/:shareId/template", async (req, res) => {
+    try {
+      const { template } = saveTemplateRequestSchema.parse(req.body);
+      const event = await requireAdmin(storage, req);
+
+      const createdTemplate = await storage.createTemplate({
+        name: template.name,
+        title: event.title,
+        description: event.description,
+        duration: event.duration,
+        timeZone: event.timeZone,
+        kind: event.kind,
+        pattern: patternFromEvent(event),
+      });
+      res.json(createdTemplate);
+    } catch (error) {
+      sendError(res, error, "Error saving template");
+    }
+  });
+
+  // List the templates with the given share ids, newest first; there is no public listing
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const { shareIds } = templateListQuerySchema.parse(req.query);
+      const found = await storage.getTemplatesByShareIds(shareIds);
+      res.json(found.map(withoutAdminToken));
+    } catch (error) {
+      sendError(res, error, "Error fetching templates");
+    }
+  });
+
+  // Get one template, e.g. from a link shared within a team
+  app.get("/api/templates/:templateShareId", async (req, res) => {
+    try {
+      const template = await requireTemplate(storage, req.params.templateShareId);
+      res.json(withoutAdminToken(template));
+    } catch (error) {
+      sendError(res, error, "Error fetching template");
+    }
+  });
+
+  // Delete a template; only whoever saved it holds its admin token
+  app.delete("/api/templates/:templateShareId", async (req, res) => {
+    try {
+      const template = await requireTemplate(storage, req.params.templateShareId);
+
+      const adminToken = req.get("X-Admin-Token");
+      if (!adminToken) {
+        throw new UnauthorizedError("Admin token required");
+      }
+      if (!tokensMatch(template.adminToken, adminToken)) {
+        throw new ForbiddenError("Invalid admin token");
+      }
+
+      await storage.deleteTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "Error deleting template");
+    }
+  });
+
+  // Get a participant's own response so they can revise it
+  app.get("/api/events/:shareId/participants/:participantId", async (req, res) => {
+    try {
+      const event = await requireEvent(storage, req.params.shareId);
+      const participant = await requireParticipant(storage, req, event);
+
+      const participantAvailability = await storage.getAvailabilityByParticipant(participant.id);
+      const response: ParticipantResponse = {
+        id: participant.id,
+        name: participant.name,
+        availability: participantAvailability.map(({ timeOptionId, status }) => ({ timeOptionId, status })),
+      };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error, "Error fetching participant response");
+    }
+  });
+
+  // Remove one response, by the organizer or by the participant who gave it
+  app.delete("/api/events/:shareId/participants/:participantId", async (req, res) => {
+    try {
+      const participant = req.get("X-Admin-Token")
+        ? await findParticipant(storage, req, await requireAdmin(storage, req))
+        : await requireParticipant(storage, req, await requireEvent(storage, req.params.shareId));
+      if (!await storage.deleteParticipant(participant.id)) {
+        throw new NotFoundError("Participant not found");
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "Error removing response");
+    }
+  });
+
+  // Suggest answers from a participant's calendar export, sent as the raw .ics text.
+  // The calendar is only read for this request and never stored.
+  app.post("/api/events/:shareId/calendar-suggestions", express.text({ type: ["text/calendar", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      const { timeZone } = calendarSuggestionsQuerySchema.parse(req.query);
+      const event = await requireEvent(storage, req.params.shareId);
+      if (typeof req.body !== "string" || !req.body.includes("BEGIN:VCALENDAR")) {
+        throw new ValidationError({ calendar: ["That doesn't look like an iCalendar (.ics) file"] });
+      }
+
+      const optionInstants = event.timeOptions.map(option => ({
+        timeOptionId: option.id,
+        ...getOptionInstants(option, event.duration, event.timeZone),
+      }));
+      const window = {
+        start: new Date(Math.min(...optionInstants.map(option => option.start.getTime()))),
+        end: new Date(Math.max(...optionInstants.map(option => option.end.getTime()))),
+      };
+      const busy = optionInstants.length > 0 ? parseBusyIntervals(req.body, window, timeZone) : [];
+
+      const result: CalendarSuggestions = {
+        busyCount: busy.length,
+        suggestions: optionInstants.map(({ timeOptionId, start, end }) => {
+          const conflicts = busy.filter(interval => interval.start < end && interval.end > start);
+          return {
+            timeOptionId,
+            status: conflicts.length > 0 ? "unavailable" : "available",
+            conflicts: Array.from(new Set(conflicts.map(interval => interval.summary ?? "Busy"))),
+          };
+        }),
+      };
+      res.json(result);
+    } catch (error) {
+      sendError(res, error, "Error reading calendar");
     }
   });
 
   // Submit participant availability
   app.post("/api/events/:shareId/participate", async (req, res) => {
     try {
-      const { shareId } = req.params;
-      const { participant, availability } = participateRequestSchema.parse(req.body);
-      
-      const event = await storage.getEventByShareId(shareId);
-      if (!event) {
-        return res.status(404).json({ error: "Event not found" });
-      }
+      const { participant, editToken, availability } = participateRequestSchema.parse(req.body);
+
+      const event = await requireEvent(storage, req.params.shareId);
+      assertAcceptsResponses(event, event.status === "draft" && await hasAdminToken(storage, req, event));
+      assertKnownTimeOptions(event, "availability", availability.map(item => item.timeOptionId));
 
-      // Check if participant with this name already exists for this event
       const existingParticipants = await storage.getParticipantsByEventId(event.id);
-      const existingParticipant = existingParticipants.find(p => p.name.toLowerCase() === participant.name.toLowerCase());
-
-      let participantId: number;
-      if (existingParticipant) {
-        participantId = existingParticipant.id;
-      } else {
-        const newParticipant = await storage.createParticipant({
-          ...participant,
-          eventId: event.id,
+
+      // Returning participants prove who they are with the token from their first response
+      const returningParticipant = editToken
+        ? existingParticipants.find(p => tokensMatch(p.editToken, editToken))
+        : undefined;
+      if (editToken && !returningParticipant) {
+        throw new ForbiddenError("Invalid edit token");
+      }
+
+      // A name already used by someone else is never silently taken over
+      const nameTaken = existingParticipants.some(
+        p => p.id !== returningParticipant?.id && p.name.toLowerCase() === participant.name.toLowerCase()
+      );
+      if (nameTaken) {
+        throw new ConflictError(`Someone named "${participant.name}" has already responded`, {
+          fieldErrors: { "participant.name": ["This name is already taken"] },
+          suggestedName: disambiguateName(participant.name, existingParticipants.map(p => p.name)),
         });
-        participantId = newParticipant.id;
       }
 
-      await storage.setAvailability(participantId, availability);
-      
-      res.json({ success: true, participantId });
+      // Participant and availability are written together, so nobody sees half a response
+      const savedParticipant = returningParticipant
+        ? await storage.updateParticipant(returningParticipant.id, participant, availability)
+        : await storage.createParticipant({ ...participant, eventId: event.id }, availability);
+      if (!savedParticipant) {
+        throw new NotFoundError("Participant not found");
+      }
+
+      res.json({ success: true, participantId: savedParticipant.id, editToken: savedParticipant.editToken });
     } catch (error) {
-      console.error("Error submitting availability:", error);
-      res.status(400).json({ error: "Invalid request data" });
+      sendError(res, error, "Error submitting availability");
     }
   });
 
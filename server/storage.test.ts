@@ -0,0 +1,164 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+
+// DatabaseStorage against an in-process Postgres (PGlite), with every query the storage sends recorded
+
+// drizzle-kit's ESM build can't load its own dependencies under vitest; the CommonJS build can
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = createRequire(import.meta.url)("drizzle-kit/api");
+
+const statuses = ["available", "maybe", "unavailable"] as const;
+
+let storage: DatabaseStorage;
+let queries: string[];
+
+beforeAll(async () => {
+  const client = new PGlite();
+  queries = [];
+  const db = drizzle(client, { schema, logger: { logQuery: (query) => queries.push(query) } });
+
+  // Same tables and indexes db:push would create
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  storage = new DatabaseStorage(db);
+}, 30_000);
+
+// An event with the given number of options, where every participant answers every option
+async function seedEvent(optionCount: number, participantCount: number) {
+  const event = await storage.createEvent(
+    { title: "Planning", duration: { unit: "minutes", value: 60 }, timeZone: "UTC" },
+    Array.from({ length: optionCount }, (_, index) => ({
+      date: `2030-01-${String(index + 1).padStart(2, "0")}`,
+      weekday: null,
+      startTime: "10:00",
+      endTime: "11:00",
+    })),
+  );
+  for (let person = 0; person < participantCount; person++) {
+    await storage.createParticipant(
+      { eventId: event.id, name: `Person ${person + 1}` },
+      event.timeOptions.map((option, index) => ({ timeOptionId: option.id, status: statuses[(person + index) % statuses.length] })),
+    );
+  }
+  return event;
+}
+
+// How many queries one getEventByShareId call sends
+async function countQueries(shareId: string) {
+  queries.length = 0;
+  const event = await storage.getEventByShareId(shareId);
+  return { event, queryCount: queries.length };
+}
+
+describe("DatabaseStorage.getEventByShareId", () => {
+  it("reads an event in the same number of queries whatever its size", async () => {
+    const small = await seedEvent(1, 1);
+    const large = await seedEvent(20, 30);
+
+    const smallRead = await countQueries(small.shareId);
+    const largeRead = await countQueries(large.shareId);
+
+    expect(largeRead.queryCount).toBe(smallRead.queryCount);
+    expect(largeRead.queryCount).toBeLessThanOrEqual(5);
+
+    // The grouped counts and joined names still add up on the large event
+    expect(largeRead.event?.participantCount).toBe(30);
+    expect(largeRead.event?.timeOptions).toHaveLength(20);
+    for (const option of largeRead.event!.timeOptions) {
+      expect(option.availabilityCount.total).toBe(30);
+      expect(option.availabilityCount.available + option.availabilityCount.maybe + option.availabilityCount.unavailable).toBe(30);
+      expect(option.participants).toHaveLength(30);
+    }
+  }, 30_000);
+
+  it("sends a single query for an unknown share id", async () => {
+    const { event, queryCount } = await countQueries("does-not-exist");
+
+    expect(event).toBeUndefined();
+    expect(queryCount).toBeLessThanOrEqual(2);
+  });
+});
+
+describe("DatabaseStorage.updateEvent", () => {
+  const planning = { title: "Planning", duration: { unit: "minutes", value: 60 }, timeZone: "UTC" } as const;
+  const slot = (date: string, startTime: string, id?: number) =>
+    ({ id, date, weekday: null, startTime, endTime: `${String(Number(startTime.slice(0, 2)) + 1).padStart(2, "0")}:00` });
+
+  it("keeps answers on unchanged options and drops them from removed or rescheduled ones", async () => {
+    const event = await seedEvent(3, 2);
+    const [kept, rescheduled, removed] = event.timeOptions;
+
+    const updated = await storage.updateEvent(event.id, planning, [
+      slot(kept.date!, kept.startTime, kept.id),
+      slot(rescheduled.date!, "12:00", rescheduled.id),
+      slot("2030-02-01", "10:00"),
+    ]);
+    expect(updated?.timeOptions.map(option => option.id)).toEqual([kept.id, rescheduled.id, expect.any(Number)]);
+
+    const read = await storage.getEventByShareId(event.shareId);
+    expect(read?.participantCount).toBe(2);
+    expect(read?.timeOptions.map(option => option.id)).not.toContain(removed.id);
+    expect(read?.timeOptions.map(option => option.availabilityCount.total)).toEqual([2, 0, 0]);
+    expect(read?.timeOptions[1]).toMatchObject({ startTime: "12:00", endTime: "13:00" });
+
+    for (const participant of await storage.getParticipantsByEventId(event.id)) {
+      const answers = await storage.getAvailabilityByParticipant(participant.id);
+      expect(answers.map(answer => answer.timeOptionId)).toEqual([kept.id]);
+    }
+  });
+
+  it("edits an event nobody has answered yet", async () => {
+    const event = await seedEvent(2, 0);
+    const [first] = event.timeOptions;
+
+    await storage.updateEvent(event.id, planning, [slot(first.date!, "15:00", first.id), slot("2030-02-02", "09:00")]);
+
+    const read = await storage.getEventByShareId(event.shareId);
+    expect(read?.participantCount).toBe(0);
+    expect(read?.timeOptions.map(option => `${option.date} ${option.startTime}`)).toEqual(["2030-01-01 15:00", "2030-02-02 09:00"]);
+    expect(read?.timeOptions.every(option => option.availabilityCount.total === 0)).toBe(true);
+  });
+});
+
+describe("DatabaseStorage.setEventStatus", () => {
+  it("moves an event that still has the expected status", async () => {
+    const event = await seedEvent(1, 0);
+
+    const updated = await storage.setEventStatus(event.id, "open", "closed");
+
+    expect(updated).toMatchObject({ status: "closed", sequence: event.sequence + 1 });
+  });
+
+  it("leaves an event alone once its status has moved on", async () => {
+    const event = await seedEvent(1, 0);
+    await storage.cancelEvent(event.id, null);
+
+    // The caller read "open" before the cancel landed
+    const updated = await storage.setEventStatus(event.id, "open", "closed");
+
+    expect(updated).toBeUndefined();
+    expect(await storage.getEvent(event.id)).toMatchObject({ status: "cancelled", sequence: event.sequence + 1 });
+  });
+});
+
+describe("DatabaseStorage.deleteEvent", () => {
+  it("takes the event's options, participants and answers with it", async () => {
+    const event = await seedEvent(2, 2);
+    const participants = await storage.getParticipantsByEventId(event.id);
+
+    expect(await storage.deleteEvent(event.id)).toBe(true);
+
+    expect(await storage.getEvent(event.id)).toBeUndefined();
+    expect(await storage.getParticipantsByEventId(event.id)).toEqual([]);
+    for (const option of event.timeOptions) {
+      expect(await storage.getAvailabilityByTimeOption(option.id)).toEqual([]);
+    }
+    for (const participant of participants) {
+      expect(await storage.getAvailabilityByParticipant(participant.id)).toEqual([]);
+    }
+  });
+});
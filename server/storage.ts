@@ -3,6 +3,7 @@ import {
   timeOptions, 
   participants, 
   availability,
+  templates,
   type Event, 
   type InsertEvent,
   type TimeOption,
@@ -13,140 +14,911 @@ import {
   type InsertAvailability,
   type EventWithTimeOptions,
   type EventWithDetails,
-  type TimeOptionWithAvailability
+  type TimeOptionWithAvailability,
+  type SeriesInstance,
+  type Template,
+  type InsertTemplate,
+  type EventStatus
 } from "@shared/schema";
 import { nanoid } from "nanoid";
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { isAllDay } from "@shared/duration";
+import type { Recurrence } from "@shared/weekday";
+import type { SeriesRule } from "@shared/series";
+import { eq, and, desc, inArray, getTableColumns, sql } from "drizzle-orm";
+
+// Every event column except the organizer's admin token, for public reads
+const { adminToken: _adminToken, ...publicEventColumns } = getTableColumns(events);
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// What a new event starts with besides the organizer's input: its status and place in a series
+type InitialEventState = Partial<Pick<Event, "status" | "seriesId" | "seriesRule">>;
+
+// Thrown when a participant name is already in use for the event (case-insensitive)
+export class ParticipantNameTakenError extends Error {
+  constructor(name: string) {
+    super(`Participant name "${name}" is already taken`);
+    this.name = "ParticipantNameTakenError";
+  }
+}
+
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const pgError = error as { code?: string; constraint?: string };
+  return pgError?.code === "23505" && pgError.constraint === constraint;
+}
+
+// Replaces all of a participant's availability; callers hold the participant row lock
+async function replaceAvailability(tx: Transaction, participantId: number, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<void> {
+  await tx.delete(availability).where(eq(availability.participantId, participantId));
+  if (availabilityList.length > 0) {
+    await tx.insert(availability).values(availabilityList.map(item => ({
+      ...item,
+      participantId,
+    })));
+  }
+}
 
 export interface IStorage {
   // Events
-  createEvent(event: InsertEvent, timeOptionsList: Omit<InsertTimeOption, "eventId">[]): Promise<EventWithTimeOptions>;
+  createEvent(event: InsertEvent, timeOptionsList: Omit<InsertTimeOption, "eventId">[], initial?: InitialEventState): Promise<EventWithTimeOptions>;
   getEvent(id: number): Promise<Event | undefined>;
   getEventByShareId(shareId: string): Promise<EventWithDetails | undefined>;
+  updateEvent(eventId: number, event: InsertEvent, timeOptionsList: (Omit<InsertTimeOption, "eventId"> & { id?: number })[]): Promise<EventWithTimeOptions | undefined>;
+  confirmEvent(eventId: number, timeOptionId: number, recurrence?: Recurrence): Promise<Event | undefined>;
+  setResponseDeadline(eventId: number, responseDeadline: Date | null): Promise<Event | undefined>;
+  // Only moves an event that still has the status the caller checked; undefined otherwise
+  setEventStatus(eventId: number, from: EventStatus, to: EventStatus): Promise<Event | undefined>;
+  cancelEvent(eventId: number, reason: string | null): Promise<Event | undefined>;
+  deleteEvent(eventId: number): Promise<boolean>;
+
+  // Series
+  startSeries(eventId: number, rule: SeriesRule): Promise<Event | undefined>;
+  getSeriesInstances(seriesId: number): Promise<SeriesInstance[]>;
+
+  // Templates
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  getTemplateByShareId(shareId: string): Promise<Template | undefined>;
+  getTemplatesByShareIds(shareIds: string[]): Promise<Template[]>;
+  deleteTemplate(templateId: number): Promise<boolean>;
   
   // Participants
-  createParticipant(participant: InsertParticipant): Promise<Participant>;
+  createParticipant(participant: InsertParticipant, availabilityList?: Omit<InsertAvailability, "participantId">[]): Promise<Participant>;
+  updateParticipant(participantId: number, participant: Pick<InsertParticipant, "name">, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<Participant | undefined>;
   getParticipantsByEventId(eventId: number): Promise<Participant[]>;
+  deleteParticipant(participantId: number): Promise<boolean>;
   
   // Availability
   setAvailability(participantId: number, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<void>;
   getAvailabilityByTimeOption(timeOptionId: number): Promise<Availability[]>;
+  getAvailabilityByParticipant(participantId: number): Promise<Availability[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
 
-  async createEvent(event: InsertEvent, timeOptionsList: Omit<InsertTimeOption, "eventId">[]): Promise<EventWithTimeOptions> {
+  async createEvent(event: InsertEvent, timeOptionsList: Omit<InsertTimeOption, "eventId">[], initial: InitialEventState = {}): Promise<EventWithTimeOptions> {
     const shareId = nanoid(10);
-    
-    // Insert event and get the created event
-    const [newEvent] = await db
-      .insert(events)
-      .values({
-        title: event.title,
-        description: event.description || null,
-        duration: event.duration,
-        shareId,
-      })
-      .returning();
+    const adminToken = nanoid(32);
 
-    // Insert time options
-    const createdTimeOptions: TimeOption[] = [];
-    for (const timeOption of timeOptionsList) {
-      const [newTimeOption] = await db
-        .insert(timeOptions)
+    return await this.db.transaction(async (tx) => {
+      const [newEvent] = await tx
+        .insert(events)
         .values({
+          title: event.title,
+          description: event.description || null,
+          duration: event.duration,
+          timeZone: event.timeZone,
+          kind: event.kind ?? "poll",
+          gridConfig: event.gridConfig ?? null,
+          responseDeadline: event.responseDeadline ?? null,
+          status: initial.status ?? "open",
+          seriesId: initial.seriesId ?? null,
+          seriesRule: initial.seriesRule ?? null,
+          shareId,
+          adminToken,
+        })
+        .returning();
+
+      const createdTimeOptions = timeOptionsList.length > 0
+        ? await tx
+          .insert(timeOptions)
+          .values(timeOptionsList.map(timeOption => ({
+            ...timeOption,
+            eventId: newEvent.id,
+          })))
+          .returning()
+        : [];
+
+      return {
+        ...newEvent,
+        timeOptions: createdTimeOptions,
+      };
+    });
+  }
+
+  async getEvent(id: number): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event || undefined;
+  }
+
+  async getEventByShareId(shareId: string): Promise<EventWithDetails | undefined> {
+    // Read everything from one snapshot so counts and names always agree
+    return await this.db.transaction(async (tx) => {
+      const [event] = await tx.select(publicEventColumns).from(events).where(eq(events.shareId, shareId));
+      if (!event) return undefined;
+
+      // Per-option status counts in a single grouped query
+      const eventTimeOptions = await tx
+        .select({
+          ...getTableColumns(timeOptions),
+          available: sql<number>`count(*) filter (where ${availability.status} = 'available')::int`,
+          maybe: sql<number>`count(*) filter (where ${availability.status} = 'maybe')::int`,
+          unavailable: sql<number>`count(*) filter (where ${availability.status} = 'unavailable')::int`,
+          total: sql<number>`count(${availability.id})::int`,
+        })
+        .from(timeOptions)
+        .leftJoin(availability, eq(availability.timeOptionId, timeOptions.id))
+        .where(eq(timeOptions.eventId, event.id))
+        .groupBy(timeOptions.id)
+        .orderBy(timeOptions.id);
+
+      // Every response for the event with the participant's name joined in
+      const responses = await tx
+        .select({
+          timeOptionId: availability.timeOptionId,
+          id: participants.id,
+          name: participants.name,
+          status: availability.status,
+        })
+        .from(availability)
+        .innerJoin(participants, eq(participants.id, availability.participantId))
+        .where(eq(participants.eventId, event.id))
+        .orderBy(availability.id);
+
+      const [{ participantCount }] = await tx
+        .select({ participantCount: sql<number>`count(*)::int` })
+        .from(participants)
+        .where(eq(participants.eventId, event.id));
+
+      const responsesByTimeOption = new Map<number, TimeOptionWithAvailability["participants"]>();
+      for (const { timeOptionId, ...participant } of responses) {
+        const optionResponses = responsesByTimeOption.get(timeOptionId) ?? [];
+        optionResponses.push(participant);
+        responsesByTimeOption.set(timeOptionId, optionResponses);
+      }
+
+      const timeOptionsWithAvailability: TimeOptionWithAvailability[] = eventTimeOptions.map(
+        ({ available, maybe, unavailable, total, ...timeOption }) => ({
           ...timeOption,
-          eventId: newEvent.id,
+          availabilityCount: { available, maybe, unavailable, total },
+          participants: responsesByTimeOption.get(timeOption.id) ?? [],
         })
+      );
+
+      return {
+        ...event,
+        timeOptions: timeOptionsWithAvailability,
+        participantCount,
+      };
+    }, { isolationLevel: "repeatable read", accessMode: "read only" });
+  }
+
+  async updateEvent(eventId: number, event: InsertEvent, timeOptionsList: (Omit<InsertTimeOption, "eventId"> & { id?: number })[]): Promise<EventWithTimeOptions | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the event so concurrent edits apply one after another
+      const [currentEvent] = await tx.select().from(events).where(eq(events.id, eventId)).for("update");
+      if (!currentEvent) return undefined;
+
+      const existingTimeOptions = await tx.select().from(timeOptions).where(eq(timeOptions.eventId, eventId));
+      const existingById = new Map(existingTimeOptions.map(option => [option.id, option]));
+      const keptIds = new Set(timeOptionsList.filter(option => option.id !== undefined).map(option => option.id));
+
+      // Options left out of the list are deleted along with their availability
+      const removedIds = existingTimeOptions.filter(option => !keptIds.has(option.id)).map(option => option.id);
+
+      // Deleting the confirmed option reopens the event
+      const confirmationRemoved =
+        currentEvent.confirmedTimeOptionId !== null && removedIds.includes(currentEvent.confirmedTimeOptionId);
+
+      // Moving a timed event to another zone shifts every option
+      const zoneChanged = event.timeZone !== currentEvent.timeZone && !isAllDay(event.duration);
+
+      // A recurring schedule only fits the weekday it was confirmed on
+      const confirmedInput = timeOptionsList.find(option => option.id === currentEvent.confirmedTimeOptionId);
+      const scheduleMoved = confirmedInput !== undefined &&
+        (confirmedInput.weekday ?? null) !== existingById.get(confirmedInput.id!)?.weekday;
+
+      const [updatedEvent] = await tx
+        .update(events)
+        .set({
+          title: event.title,
+          description: event.description || null,
+          duration: event.duration,
+          timeZone: event.timeZone,
+          gridConfig: event.gridConfig ?? null,
+          responseDeadline: event.responseDeadline ?? null,
+          ...(confirmationRemoved ? { status: "open" as const, confirmedTimeOptionId: null, confirmedAt: null, recurrence: null } : {}),
+          ...(scheduleMoved ? { recurrence: null } : {}),
+          sequence: sql`${events.sequence} + 1`,
+        })
+        .where(eq(events.id, eventId))
         .returning();
-      createdTimeOptions.push(newTimeOption);
+
+      if (removedIds.length > 0) {
+        await tx.delete(availability).where(inArray(availability.timeOptionId, removedIds));
+        await tx.delete(timeOptions).where(inArray(timeOptions.id, removedIds));
+      }
+
+      const newTimeOptions = timeOptionsList.filter(option => option.id === undefined || !existingById.has(option.id));
+      const insertedTimeOptions = newTimeOptions.length > 0
+        ? await tx
+          .insert(timeOptions)
+          .values(newTimeOptions.map(({ id: _id, ...timeOption }) => ({
+            ...timeOption,
+            eventId,
+          })))
+          .returning()
+        : [];
+
+      const updatedTimeOptions: TimeOption[] = [];
+      for (const { id, ...timeOption } of timeOptionsList) {
+        const existing = id !== undefined ? existingById.get(id) : undefined;
+
+        if (!existing) {
+          // Bulk-inserted rows come back in the order they were sent
+          updatedTimeOptions.push(insertedTimeOptions.shift()!);
+          continue;
+        }
+
+        const rescheduled =
+          zoneChanged ||
+          existing.date !== (timeOption.date ?? null) ||
+          existing.weekday !== (timeOption.weekday ?? null) ||
+          existing.startTime !== timeOption.startTime ||
+          existing.endTime !== timeOption.endTime;
+        if (!rescheduled) {
+          updatedTimeOptions.push(existing);
+          continue;
+        }
+
+        // Answers given for the old slot don't apply to the new one
+        await tx.delete(availability).where(eq(availability.timeOptionId, existing.id));
+        const [rescheduledTimeOption] = await tx
+          .update(timeOptions)
+          .set(timeOption)
+          .where(and(eq(timeOptions.id, existing.id), eq(timeOptions.eventId, eventId)))
+          .returning();
+        updatedTimeOptions.push(rescheduledTimeOption);
+      }
+
+      return {
+        ...updatedEvent,
+        timeOptions: updatedTimeOptions,
+      };
+    });
+  }
+
+  async confirmEvent(eventId: number, timeOptionId: number, recurrence?: Recurrence): Promise<Event | undefined> {
+    const [confirmedEvent] = await this.db
+      .update(events)
+      .set({
+        status: "confirmed",
+        confirmedTimeOptionId: timeOptionId,
+        confirmedAt: new Date(),
+        recurrence: recurrence ?? null,
+        sequence: sql`${events.sequence} + 1`,
+      })
+      .where(eq(events.id, eventId))
+      .returning();
+    return confirmedEvent || undefined;
+  }
+
+  async setResponseDeadline(eventId: number, responseDeadline: Date | null): Promise<Event | undefined> {
+    const [updatedEvent] = await this.db
+      .update(events)
+      .set({ responseDeadline })
+      .where(eq(events.id, eventId))
+      .returning();
+    return updatedEvent || undefined;
+  }
+
+  async setEventStatus(eventId: number, from: EventStatus, to: EventStatus): Promise<Event | undefined> {
+    // Moving a confirmed event back to any other status drops the chosen time
+    const confirmationCleared = to !== "confirmed";
+    // Matching on the old status makes the check and the write one step, so a
+    // concurrent confirm or cancel can't be overwritten
+    const [updatedEvent] = await this.db
+      .update(events)
+      .set({
+        status: to,
+        ...(confirmationCleared ? { confirmedTimeOptionId: null, confirmedAt: null, recurrence: null } : {}),
+        sequence: sql`${events.sequence} + 1`,
+      })
+      .where(and(eq(events.id, eventId), eq(events.status, from)))
+      .returning();
+    return updatedEvent || undefined;
+  }
+
+  async cancelEvent(eventId: number, reason: string | null): Promise<Event | undefined> {
+    // The confirmed time is kept so history and calendar feeds show what was called off
+    const [cancelledEvent] = await this.db
+      .update(events)
+      .set({
+        status: "cancelled",
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        sequence: sql`${events.sequence} + 1`,
+      })
+      .where(eq(events.id, eventId))
+      .returning();
+    return cancelledEvent || undefined;
+  }
+
+  async deleteEvent(eventId: number): Promise<boolean> {
+    // Time options, participants and their availability go with it via ON DELETE CASCADE
+    const deleted = await this.db.delete(events).where(eq(events.id, eventId)).returning({ id: events.id });
+    return deleted.length > 0;
+  }
+
+  async startSeries(eventId: number, rule: SeriesRule): Promise<Event | undefined> {
+    // An event that already belongs to a series keeps its place and only changes the rule
+    const [seriesEvent] = await this.db
+      .update(events)
+      .set({
+        seriesId: sql`coalesce(${events.seriesId}, ${events.id})`,
+        seriesRule: rule,
+      })
+      .where(eq(events.id, eventId))
+      .returning();
+    return seriesEvent || undefined;
+  }
+
+  async getSeriesInstances(seriesId: number): Promise<SeriesInstance[]> {
+    return await this.db.transaction(async (tx) => {
+      const seriesEvents = await tx
+        .select({
+          id: events.id,
+          shareId: events.shareId,
+          title: events.title,
+          status: events.status,
+          createdAt: events.createdAt,
+          confirmedAt: events.confirmedAt,
+          cancelledAt: events.cancelledAt,
+          cancellationReason: events.cancellationReason,
+          confirmedTimeOptionId: events.confirmedTimeOptionId,
+          participantCount: sql<number>`(select count(*) from ${participants} where ${participants.eventId} = ${events.id})::int`,
+        })
+        .from(events)
+        .where(eq(events.seriesId, seriesId))
+        .orderBy(events.id);
+
+      const confirmedIds = seriesEvents.flatMap(event => event.confirmedTimeOptionId !== null ? [event.confirmedTimeOptionId] : []);
+      const confirmedOptions = confirmedIds.length > 0
+        ? await tx.select().from(timeOptions).where(inArray(timeOptions.id, confirmedIds))
+        : [];
+      const confirmedById = new Map(confirmedOptions.map(option => [option.id, option]));
+
+      return seriesEvents.map(({ confirmedTimeOptionId, ...event }) => ({
+        ...event,
+        confirmedTimeOption: confirmedTimeOptionId !== null ? confirmedById.get(confirmedTimeOptionId) ?? null : null,
+      }));
+    }, { isolationLevel: "repeatable read", accessMode: "read only" });
+  }
+
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    const [newTemplate] = await this.db
+      .insert(templates)
+      .values({ ...template, shareId: nanoid(10), adminToken: nanoid(32) })
+      .returning();
+    return newTemplate;
+  }
+
+  async getTemplateByShareId(shareId: string): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.shareId, shareId));
+    return template || undefined;
+  }
+
+  async getTemplatesByShareIds(shareIds: string[]): Promise<Template[]> {
+    if (shareIds.length === 0) return [];
+    return await this.db
+      .select()
+      .from(templates)
+      .where(inArray(templates.shareId, shareIds))
+      .orderBy(desc(templates.createdAt), desc(templates.id));
+  }
+
+  async deleteTemplate(templateId: number): Promise<boolean> {
+    const deleted = await this.db.delete(templates).where(eq(templates.id, templateId)).returning({ id: templates.id });
+    return deleted.length > 0;
+  }
+
+  async createParticipant(participant: InsertParticipant, availabilityList: Omit<InsertAvailability, "participantId">[] = []): Promise<Participant> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [newParticipant] = await tx
+          .insert(participants)
+          .values({
+            ...participant,
+            editToken: nanoid(32),
+          })
+          .returning();
+        await replaceAvailability(tx, newParticipant.id, availabilityList);
+        return newParticipant;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, "participants_event_name_idx")) {
+        throw new ParticipantNameTakenError(participant.name);
+      }
+      throw error;
     }
+  }
+
+  async updateParticipant(participantId: number, participant: Pick<InsertParticipant, "name">, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<Participant | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [updatedParticipant] = await tx
+          .update(participants)
+          .set({ name: participant.name })
+          .where(eq(participants.id, participantId))
+          .returning();
+        if (!updatedParticipant) return undefined;
+
+        await replaceAvailability(tx, participantId, availabilityList);
+        return updatedParticipant;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, "participants_event_name_idx")) {
+        throw new ParticipantNameTakenError(participant.name);
+      }
+      throw error;
+    }
+  }
+
+  async getParticipantsByEventId(eventId: number): Promise<Participant[]> {
+    return await this.db.select().from(participants).where(eq(participants.eventId, eventId));
+  }
+
+  async deleteParticipant(participantId: number): Promise<boolean> {
+    const deleted = await this.db.delete(participants).where(eq(participants.id, participantId)).returning({ id: participants.id });
+    return deleted.length > 0;
+  }
+
+  async setAvailability(participantId: number, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      // Lock the participant so overlapping submissions replace rather than interleave
+      await tx.select({ id: participants.id }).from(participants).where(eq(participants.id, participantId)).for("update");
+      await replaceAvailability(tx, participantId, availabilityList);
+    });
+  }
+
+  async getAvailabilityByTimeOption(timeOptionId: number): Promise<Availability[]> {
+    return await this.db.select().from(availability).where(eq(availability.timeOptionId, timeOptionId));
+  }
+
+  async getAvailabilityByParticipant(participantId: number): Promise<Availability[]> {
+    return await this.db.select().from(availability).where(eq(availability.participantId, participantId));
+  }
+}
+
+
+export class MemStorage implements IStorage {
+  private events = new Map<number, Event>();
+  private timeOptions = new Map<number, TimeOption>();
+  private participants = new Map<number, Participant>();
+  private availability = new Map<number, Availability>();
+  private templates = new Map<number, Template>();
+  private nextId = {
+    event: 1,
+    timeOption: 1,
+    participant: 1,
+    availability: 1,
+    template: 1,
+  };
+
+  async createEvent(event: InsertEvent, timeOptionsList: Omit<InsertTimeOption, "eventId">[], initial: InitialEventState = {}): Promise<EventWithTimeOptions> {
+    let shareId = nanoid(10);
+    while (Array.from(this.events.values()).some(e => e.shareId === shareId)) {
+      shareId = nanoid(10);
+    }
+
+    const newEvent: Event = {
+      id: this.nextId.event++,
+      title: event.title,
+      description: event.description || null,
+      duration: event.duration,
+      timeZone: event.timeZone,
+      kind: event.kind ?? "poll",
+      gridConfig: event.gridConfig ?? null,
+      responseDeadline: event.responseDeadline ?? null,
+      shareId,
+      adminToken: nanoid(32),
+      confirmedTimeOptionId: null,
+      confirmedAt: null,
+      recurrence: null,
+      status: initial.status ?? "open",
+      cancelledAt: null,
+      cancellationReason: null,
+      sequence: 0,
+      seriesId: initial.seriesId ?? null,
+      seriesRule: initial.seriesRule ?? null,
+      createdAt: new Date(),
+    };
+    this.events.set(newEvent.id, newEvent);
+
+    const createdTimeOptions = timeOptionsList.map(timeOption => this.insertTimeOption(newEvent.id, timeOption));
 
     return {
       ...newEvent,
-      timeOptions: createdTimeOptions,
+      timeOptions: createdTimeOptions.map(option => ({ ...option })),
     };
   }
 
   async getEvent(id: number): Promise<Event | undefined> {
-    const [event] = await db.select().from(events).where(eq(events.id, id));
-    return event || undefined;
+    const event = this.events.get(id);
+    return event ? { ...event } : undefined;
   }
 
   async getEventByShareId(shareId: string): Promise<EventWithDetails | undefined> {
-    const [event] = await db.select().from(events).where(eq(events.shareId, shareId));
+    const event = Array.from(this.events.values()).find(e => e.shareId === shareId);
     if (!event) return undefined;
 
-    const eventTimeOptions = await db.select().from(timeOptions).where(eq(timeOptions.eventId, event.id));
-    const eventParticipants = await db.select().from(participants).where(eq(participants.eventId, event.id));
+    const { adminToken: _adminToken, ...publicEvent } = event;
+    const eventParticipants = this.participantsOf(event.id);
+    const participantNames = new Map(eventParticipants.map(p => [p.id, p.name]));
+    const eventAvailability = Array.from(this.availability.values())
+      .filter(a => participantNames.has(a.participantId))
+      .sort((a, b) => a.id - b.id);
 
-    const timeOptionsWithAvailability: TimeOptionWithAvailability[] = [];
+    const timeOptionsWithAvailability: TimeOptionWithAvailability[] = this.timeOptionsOf(event.id).map(timeOption => {
+      const optionAvailability = eventAvailability.filter(a => a.timeOptionId === timeOption.id);
+      return {
+        ...timeOption,
+        availabilityCount: {
+          available: optionAvailability.filter(a => a.status === "available").length,
+          maybe: optionAvailability.filter(a => a.status === "maybe").length,
+          unavailable: optionAvailability.filter(a => a.status === "unavailable").length,
+          total: optionAvailability.length,
+        },
+        participants: optionAvailability.map(a => ({
+          id: a.participantId,
+          name: participantNames.get(a.participantId)!,
+          status: a.status,
+        })),
+      };
+    });
 
-    for (const timeOption of eventTimeOptions) {
-      const availabilityData = await db.select().from(availability).where(eq(availability.timeOptionId, timeOption.id));
+    return {
+      ...publicEvent,
+      timeOptions: timeOptionsWithAvailability,
+      participantCount: eventParticipants.length,
+    };
+  }
 
-      const availabilityCount = {
-        available: availabilityData.filter(a => a.status === "available").length,
-        maybe: availabilityData.filter(a => a.status === "maybe").length,
-        unavailable: availabilityData.filter(a => a.status === "unavailable").length,
-        total: availabilityData.length,
-      };
+  async updateEvent(eventId: number, event: InsertEvent, timeOptionsList: (Omit<InsertTimeOption, "eventId"> & { id?: number })[]): Promise<EventWithTimeOptions | undefined> {
+    const currentEvent = this.events.get(eventId);
+    if (!currentEvent) return undefined;
 
-      const participantsWithStatus = await Promise.all(
-        availabilityData.map(async (a) => {
-          const [participant] = await db.select().from(participants).where(eq(participants.id, a.participantId));
-          return {
-            id: a.participantId,
-            name: participant?.name || "Unknown",
-            status: a.status,
-          };
-        })
-      );
+    const existingById = new Map(this.timeOptionsOf(eventId).map(option => [option.id, option]));
+    const keptIds = new Set(timeOptionsList.filter(option => option.id !== undefined).map(option => option.id));
 
-      timeOptionsWithAvailability.push({
-        ...timeOption,
-        availabilityCount,
-        participants: participantsWithStatus,
-      });
+    // Options left out of the list are deleted along with their availability
+    const removedIds = Array.from(existingById.keys()).filter(id => !keptIds.has(id));
+    for (const id of removedIds) {
+      this.deleteAvailabilityWhere(a => a.timeOptionId === id);
+      this.timeOptions.delete(id);
     }
 
+    // Deleting the confirmed option reopens the event
+    const confirmationRemoved =
+      currentEvent.confirmedTimeOptionId !== null && removedIds.includes(currentEvent.confirmedTimeOptionId);
+
+    // Moving a timed event to another zone shifts every option
+    const zoneChanged = event.timeZone !== currentEvent.timeZone && !isAllDay(event.duration);
+
+    // A recurring schedule only fits the weekday it was confirmed on
+    const confirmedInput = timeOptionsList.find(option => option.id === currentEvent.confirmedTimeOptionId);
+    const scheduleMoved = confirmedInput !== undefined &&
+      (confirmedInput.weekday ?? null) !== existingById.get(confirmedInput.id!)?.weekday;
+
+    const updatedEvent: Event = {
+      ...currentEvent,
+      title: event.title,
+      description: event.description || null,
+      duration: event.duration,
+      timeZone: event.timeZone,
+      gridConfig: event.gridConfig ?? null,
+      responseDeadline: event.responseDeadline ?? null,
+      ...(confirmationRemoved ? { status: "open" as const, confirmedTimeOptionId: null, confirmedAt: null, recurrence: null } : {}),
+      ...(scheduleMoved ? { recurrence: null } : {}),
+      sequence: currentEvent.sequence + 1,
+    };
+    this.events.set(eventId, updatedEvent);
+
+    const updatedTimeOptions = timeOptionsList.map(({ id, ...timeOption }) => {
+      const existing = id !== undefined ? existingById.get(id) : undefined;
+      if (!existing) {
+        return this.insertTimeOption(eventId, timeOption);
+      }
+
+      const rescheduled =
+        zoneChanged ||
+        existing.date !== (timeOption.date ?? null) ||
+        existing.weekday !== (timeOption.weekday ?? null) ||
+        existing.startTime !== timeOption.startTime ||
+        existing.endTime !== timeOption.endTime;
+      if (!rescheduled) {
+        return existing;
+      }
+
+      // Answers given for the old slot don't apply to the new one
+      this.deleteAvailabilityWhere(a => a.timeOptionId === existing.id);
+      const rescheduledTimeOption: TimeOption = { ...existing, ...timeOption };
+      this.timeOptions.set(existing.id, rescheduledTimeOption);
+      return rescheduledTimeOption;
+    });
+
     return {
+      ...updatedEvent,
+      timeOptions: updatedTimeOptions.map(option => ({ ...option })),
+    };
+  }
+
+  async confirmEvent(eventId: number, timeOptionId: number, recurrence?: Recurrence): Promise<Event | undefined> {
+    const event = this.events.get(eventId);
+    if (!event) return undefined;
+
+    const confirmedEvent: Event = {
       ...event,
-      timeOptions: timeOptionsWithAvailability,
-      participantCount: eventParticipants.length,
+      status: "confirmed",
+      confirmedTimeOptionId: timeOptionId,
+      confirmedAt: new Date(),
+      recurrence: recurrence ?? null,
+      sequence: event.sequence + 1,
     };
+    this.events.set(eventId, confirmedEvent);
+    return { ...confirmedEvent };
   }
 
-  async createParticipant(participant: InsertParticipant): Promise<Participant> {
-    const [newParticipant] = await db
-      .insert(participants)
-      .values(participant)
-      .returning();
-    return newParticipant;
+  async setResponseDeadline(eventId: number, responseDeadline: Date | null): Promise<Event | undefined> {
+    const event = this.events.get(eventId);
+    if (!event) return undefined;
+
+    const updatedEvent: Event = { ...event, responseDeadline };
+    this.events.set(eventId, updatedEvent);
+    return { ...updatedEvent };
+  }
+
+  async setEventStatus(eventId: number, from: EventStatus, to: EventStatus): Promise<Event | undefined> {
+    const event = this.events.get(eventId);
+    if (!event || event.status !== from) return undefined;
+
+    const confirmationCleared = to !== "confirmed";
+    const updatedEvent: Event = {
+      ...event,
+      status: to,
+      ...(confirmationCleared ? { confirmedTimeOptionId: null, confirmedAt: null, recurrence: null } : {}),
+      sequence: event.sequence + 1,
+    };
+    this.events.set(eventId, updatedEvent);
+    return { ...updatedEvent };
+  }
+
+  async cancelEvent(eventId: number, reason: string | null): Promise<Event | undefined> {
+    const event = this.events.get(eventId);
+    if (!event) return undefined;
+
+    const cancelledEvent: Event = {
+      ...event,
+      status: "cancelled",
+      cancelledAt: new Date(),
+      cancellationReason: reason,
+      sequence: event.sequence + 1,
+    };
+    this.events.set(eventId, cancelledEvent);
+    return { ...cancelledEvent };
+  }
+
+  async deleteEvent(eventId: number): Promise<boolean> {
+    if (!this.events.has(eventId)) return false;
+
+    // Mirrors the ON DELETE CASCADE foreign keys
+    for (const participant of this.participantsOf(eventId)) {
+      this.removeParticipant(participant.id);
+    }
+    for (const option of this.timeOptionsOf(eventId)) {
+      this.timeOptions.delete(option.id);
+    }
+    this.events.delete(eventId);
+    return true;
+  }
+
+  async startSeries(eventId: number, rule: SeriesRule): Promise<Event | undefined> {
+    const event = this.events.get(eventId);
+    if (!event) return undefined;
+
+    const seriesEvent: Event = { ...event, seriesId: event.seriesId ?? event.id, seriesRule: rule };
+    this.events.set(eventId, seriesEvent);
+    return { ...seriesEvent };
+  }
+
+  async getSeriesInstances(seriesId: number): Promise<SeriesInstance[]> {
+    return Array.from(this.events.values())
+      .filter(event => event.seriesId === seriesId)
+      .sort((a, b) => a.id - b.id)
+      .map(event => {
+        const confirmedTimeOption = event.confirmedTimeOptionId !== null ? this.timeOptions.get(event.confirmedTimeOptionId) : undefined;
+        return {
+          id: event.id,
+          shareId: event.shareId,
+          title: event.title,
+          status: event.status,
+          createdAt: event.createdAt,
+          confirmedAt: event.confirmedAt,
+          cancelledAt: event.cancelledAt,
+          cancellationReason: event.cancellationReason,
+          confirmedTimeOption: confirmedTimeOption ? { ...confirmedTimeOption } : null,
+          participantCount: this.participantsOf(event.id).length,
+        };
+      });
+  }
+
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    const newTemplate: Template = {
+      ...template,
+      id: this.nextId.template++,
+      shareId: nanoid(10),
+      adminToken: nanoid(32),
+      createdAt: new Date(),
+    };
+    this.templates.set(newTemplate.id, newTemplate);
+    return { ...newTemplate };
+  }
+
+  async getTemplateByShareId(shareId: string): Promise<Template | undefined> {
+    const template = Array.from(this.templates.values()).find(t => t.shareId === shareId);
+    return template ? { ...template } : undefined;
+  }
+
+  async getTemplatesByShareIds(shareIds: string[]): Promise<Template[]> {
+    const wanted = new Set(shareIds);
+    return Array.from(this.templates.values())
+      .filter(template => wanted.has(template.shareId))
+      .sort((a, b) => b.id - a.id)
+      .map(template => ({ ...template }));
+  }
+
+  async deleteTemplate(templateId: number): Promise<boolean> {
+    return this.templates.delete(templateId);
+  }
+
+  async createParticipant(participant: InsertParticipant, availabilityList: Omit<InsertAvailability, "participantId">[] = []): Promise<Participant> {
+    this.assertNameAvailable(participant.eventId, participant.name);
+
+    const newParticipant: Participant = {
+      id: this.nextId.participant++,
+      eventId: participant.eventId,
+      name: participant.name,
+      editToken: nanoid(32),
+      createdAt: new Date(),
+    };
+    this.participants.set(newParticipant.id, newParticipant);
+    this.replaceAvailability(newParticipant.id, availabilityList);
+    return { ...newParticipant };
+  }
+
+  async updateParticipant(participantId: number, participant: Pick<InsertParticipant, "name">, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<Participant | undefined> {
+    const existing = this.participants.get(participantId);
+    if (!existing) return undefined;
+
+    this.assertNameAvailable(existing.eventId, participant.name, participantId);
+
+    const updatedParticipant: Participant = { ...existing, name: participant.name };
+    this.participants.set(participantId, updatedParticipant);
+    this.replaceAvailability(participantId, availabilityList);
+    return { ...updatedParticipant };
   }
 
   async getParticipantsByEventId(eventId: number): Promise<Participant[]> {
-    return await db.select().from(participants).where(eq(participants.eventId, eventId));
+    return this.participantsOf(eventId).map(p => ({ ...p }));
+  }
+
+  async deleteParticipant(participantId: number): Promise<boolean> {
+    if (!this.participants.has(participantId)) return false;
+    this.removeParticipant(participantId);
+    return true;
   }
 
   async setAvailability(participantId: number, availabilityList: Omit<InsertAvailability, "participantId">[]): Promise<void> {
-    // Remove existing availability for this participant
-    await db.delete(availability).where(eq(availability.participantId, participantId));
+    this.replaceAvailability(participantId, availabilityList);
+  }
+
+  async getAvailabilityByTimeOption(timeOptionId: number): Promise<Availability[]> {
+    return Array.from(this.availability.values())
+      .filter(a => a.timeOptionId === timeOptionId)
+      .map(a => ({ ...a }));
+  }
+
+  async getAvailabilityByParticipant(participantId: number): Promise<Availability[]> {
+    return Array.from(this.availability.values())
+      .filter(a => a.participantId === participantId)
+      .map(a => ({ ...a }));
+  }
+
+  private insertTimeOption(eventId: number, timeOption: Omit<InsertTimeOption, "eventId">): TimeOption {
+    const newTimeOption: TimeOption = {
+      id: this.nextId.timeOption++,
+      eventId,
+      date: timeOption.date ?? null,
+      weekday: timeOption.weekday ?? null,
+      startTime: timeOption.startTime,
+      endTime: timeOption.endTime,
+    };
+    this.timeOptions.set(newTimeOption.id, newTimeOption);
+    return newTimeOption;
+  }
+
+  private timeOptionsOf(eventId: number): TimeOption[] {
+    return Array.from(this.timeOptions.values())
+      .filter(option => option.eventId === eventId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private participantsOf(eventId: number): Participant[] {
+    return Array.from(this.participants.values())
+      .filter(p => p.eventId === eventId)
+      .sort((a, b) => a.id - b.id);
+  }
 
-    // Add new availability
-    if (availabilityList.length > 0) {
-      const availabilityData = availabilityList.map(item => ({
-        ...item,
+  // Mirrors participants_event_name_idx
+  private assertNameAvailable(eventId: number, name: string, exceptParticipantId?: number): void {
+    const taken = this.participantsOf(eventId).some(
+      p => p.id !== exceptParticipantId && p.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new ParticipantNameTakenError(name);
+    }
+  }
+
+  private replaceAvailability(participantId: number, availabilityList: Omit<InsertAvailability, "participantId">[]): void {
+    // Mirrors availability_participant_time_option_idx
+    const timeOptionIds = new Set(availabilityList.map(item => item.timeOptionId));
+    if (timeOptionIds.size !== availabilityList.length) {
+      throw new Error("Duplicate availability for a time option");
+    }
+
+    this.deleteAvailabilityWhere(a => a.participantId === participantId);
+    for (const item of availabilityList) {
+      const newAvailability: Availability = {
+        id: this.nextId.availability++,
         participantId,
-      }));
-      await db.insert(availability).values(availabilityData);
+        timeOptionId: item.timeOptionId,
+        status: item.status,
+      };
+      this.availability.set(newAvailability.id, newAvailability);
     }
   }
 
-  async getAvailabilityByTimeOption(timeOptionId: number): Promise<Availability[]> {
-    return await db.select().from(availability).where(eq(availability.timeOptionId, timeOptionId));
+  private removeParticipant(participantId: number): void {
+    this.deleteAvailabilityWhere(a => a.participantId === participantId);
+    this.participants.delete(participantId);
+  }
+
+  private deleteAvailabilityWhere(predicate: (a: Availability) => boolean): void {
+    for (const [id, a] of Array.from(this.availability.entries())) {
+      if (predicate(a)) this.availability.delete(id);
+    }
   }
 }
 
-export const storage = new DatabaseStorage();
+// Picks the storage backend from the STORAGE environment variable (defaults to Postgres)
+export function createStorage(driver = process.env.STORAGE || "postgres"): IStorage {
+  switch (driver) {
+    case "postgres":
+      return new DatabaseStorage(createDb());
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE "${driver}". Expected "postgres" or "memory".`);
+  }
+}
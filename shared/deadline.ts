@@ -0,0 +1,21 @@
+// Deadlines arrive as Date objects on the server and as ISO strings over JSON
+type Deadline = Date | string | null;
+
+export function isPastDeadline(deadline: Deadline, now: Date = new Date()): boolean {
+  return deadline !== null && new Date(deadline).getTime() <= now.getTime();
+}
+
+// e.g. "2 days 3 hours", "45 minutes", "less than a minute"
+export function formatTimeRemaining(deadline: Date | string, now: Date = new Date()): string {
+  const totalMinutes = Math.floor((new Date(deadline).getTime() - now.getTime()) / 60_000);
+  if (totalMinutes < 1) return "less than a minute";
+
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+  if (days > 0) return hours > 0 ? `${plural(days, "day")} ${plural(hours, "hour")}` : plural(days, "day");
+  if (hours > 0) return minutes > 0 ? `${plural(hours, "hour")} ${plural(minutes, "minute")}` : plural(hours, "hour");
+  return plural(minutes, "minute");
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+// Event length: a number of minutes for timed events, or a number of whole days for all-day ones
+export const durationSchema = z.discriminatedUnion("unit", [
+  z.object({
+    unit: z.literal("minutes"),
+    value: z.number().int().min(5, "Duration must be at least 5 minutes").max(24 * 60, "Use days for durations over 24 hours"),
+  }),
+  z.object({
+    unit: z.literal("days"),
+    value: z.number().int().min(1, "Duration must be at least 1 day").max(31, "Duration can be at most 31 days"),
+  }),
+]);
+
+export type Duration = z.infer<typeof durationSchema>;
+
+export const durationPresets: Array<{ label: string; duration: Duration }> = [
+  { label: "30 minutes", duration: { unit: "minutes", value: 30 } },
+  { label: "1 hour", duration: { unit: "minutes", value: 60 } },
+  { label: "1.5 hours", duration: { unit: "minutes", value: 90 } },
+  { label: "2 hours", duration: { unit: "minutes", value: 120 } },
+  { label: "3 hours", duration: { unit: "minutes", value: 180 } },
+  { label: "4 hours", duration: { unit: "minutes", value: 240 } },
+  { label: "5 hours", duration: { unit: "minutes", value: 300 } },
+  { label: "6 hours", duration: { unit: "minutes", value: 360 } },
+  { label: "All day", duration: { unit: "days", value: 1 } },
+  { label: "2 days", duration: { unit: "days", value: 2 } },
+  { label: "3 days", duration: { unit: "days", value: 3 } },
+  { label: "4 days", duration: { unit: "days", value: 4 } },
+  { label: "A week", duration: { unit: "days", value: 7 } },
+];
+
+// Day-based durations have no start or end time
+export function isAllDay(duration: Duration): boolean {
+  return duration.unit === "days";
+}
+
+export function isMultiDay(duration: Duration): boolean {
+  return duration.unit === "days" && duration.value > 1;
+}
+
+export function durationsEqual(a: Duration, b: Duration): boolean {
+  return a.unit === b.unit && a.value === b.value;
+}
+
+export function formatDuration(duration: Duration): string {
+  const preset = durationPresets.find(p => durationsEqual(p.duration, duration));
+  if (preset) return preset.label;
+
+  if (duration.unit === "days") {
+    return duration.value % 7 === 0
+      ? `${duration.value / 7} weeks`
+      : `${duration.value} days`;
+  }
+
+  const hours = Math.floor(duration.value / 60);
+  const minutes = duration.value % 60;
+  const hourLabel = hours === 1 ? "1 hour" : `${hours} hours`;
+  if (hours === 0) return `${minutes} minutes`;
+  if (minutes === 0) return hourLabel;
+  return `${hourLabel} ${minutes} minutes`;
+}
+
+// Adds days to a YYYY-MM-DD string without going through the local time zone
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// HH:MM end time for a timed event; all-day events run to the end of the day
+export function calculateEndTime(startTime: string, duration: Duration): string {
+  if (duration.unit === "days") return "23:59";
+  if (!startTime) return "";
+
+  const [hours, minutes] = startTime.split(':').map(Number);
+  const totalMinutes = hours * 60 + minutes + duration.value;
+  const endHours = Math.floor(totalMinutes / 60) % 24;
+  const endMins = totalMinutes % 60;
+
+  return `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
+}
+
+// YYYY-MM-DD of the last day the event touches, including timed events that run past midnight
+export function calculateEndDate(startDate: string, startTime: string, duration: Duration): string {
+  if (!startDate) return "";
+  if (duration.unit === "days") return addDays(startDate, duration.value - 1);
+
+  const [hours, minutes] = (startTime || "00:00").split(':').map(Number);
+  return addDays(startDate, Math.floor((hours * 60 + minutes + duration.value - 1) / (24 * 60)));
+}
+
+// e.g. "Fri, Nov 6"
+export function formatShortDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// e.g. "Fri, Nov 6 - Sun, Nov 8" for multi-day events, or just "Fri, Nov 6"
+export function formatDateRange(startDate: string, duration: Duration): string {
+  const endDate = calculateEndDate(startDate, "", duration);
+  return endDate === startDate ? formatShortDate(startDate) : `${formatShortDate(startDate)} - ${formatShortDate(endDate)}`;
+}
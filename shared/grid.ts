@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { addDays } from "./duration";
+
+export const gridSlotSizes = [15, 30, 60] as const;
+
+// Longest date range a grid can cover, keeping the number of generated slots manageable
+export const MAX_GRID_DAYS = 31;
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format");
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (totalMinutes: number) =>
+  `${Math.floor(totalMinutes / 60).toString().padStart(2, "0")}:${(totalMinutes % 60).toString().padStart(2, "0")}`;
+
+// A grid event covers every day from startDate to endDate, between dayStartTime and dayEndTime
+export const gridConfigSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+  dayStartTime: timeSchema,
+  dayEndTime: timeSchema, // "24:00" runs to midnight
+  slotMinutes: z.union([z.literal(15), z.literal(30), z.literal(60)]),
+}).superRefine((config, ctx) => {
+  if (config.endDate < config.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must be on or after the start date" });
+  } else if (addDays(config.startDate, MAX_GRID_DAYS - 1) < config.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: `A grid can cover at most ${MAX_GRID_DAYS} days` });
+  }
+
+  const start = toMinutes(config.dayStartTime);
+  const end = toMinutes(config.dayEndTime);
+  if (end > 24 * 60) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dayEndTime"], message: "The daily window must end by midnight" });
+  } else if (end - start < config.slotMinutes) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dayEndTime"], message: "The daily window must fit at least one slot" });
+  }
+});
+
+export type GridConfig = z.infer<typeof gridConfigSchema>;
+
+export function getGridDates(config: GridConfig): string[] {
+  const dates: string[] = [];
+  for (let date = config.startDate; date <= config.endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Start times of the slots in one day; a trailing partial slot is dropped
+export function getGridTimes(config: GridConfig): string[] {
+  const times: string[] = [];
+  const end = toMinutes(config.dayEndTime);
+  for (let start = toMinutes(config.dayStartTime); start + config.slotMinutes <= end; start += config.slotMinutes) {
+    times.push(toTime(start));
+  }
+  return times;
+}
+
+// Every slot of the grid, day by day, as time option rows
+export function generateGridSlots(config: GridConfig): Array<{ date: string; startTime: string; endTime: string }> {
+  const times = getGridTimes(config);
+  return getGridDates(config).flatMap(date => times.map(startTime => ({
+    date,
+    startTime,
+    endTime: toTime((toMinutes(startTime) + config.slotMinutes) % (24 * 60)),
+  })));
+}
+
+// Rows and columns for drawing slots as a grid; cells may be missing when zones don't line up
+export interface GridLayout<T> {
+  dates: string[];
+  times: string[];
+  cellAt: (date: string, time: string) => T | undefined;
+}
+
+export function buildGridLayout<T extends { date: string; startTime: string }>(cells: T[]): GridLayout<T> {
+  const byPosition = new Map(cells.map(cell => [`${cell.date} ${cell.startTime}`, cell]));
+  return {
+    dates: Array.from(new Set(cells.map(cell => cell.date))).sort(),
+    times: Array.from(new Set(cells.map(cell => cell.startTime))).sort(),
+    cellAt: (date, time) => byPosition.get(`${date} ${time}`),
+  };
+}
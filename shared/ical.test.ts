@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { CalendarTooLargeError, buildCalendar, maxCalendarEvents, parseBusyIntervals, type CalendarEntry } from "./ical";
+
+// .ics output around DST changes, where wall-clock times and durations disagree, and reading
+// busy times back from someone's calendar
+
+const stamp = new Date("2030-01-01T00:00:00Z");
+
+// 90 minutes from 01:30 on the night New York springs forward, stored as ending at 03:00
+const springForward: CalendarEntry = {
+  uid: "abc@hangtime",
+  title: "Night shift",
+  description: null,
+  duration: { unit: "minutes", value: 90 },
+  timeZone: "America/New_York",
+  option: { date: "2030-03-10", weekday: null, startTime: "01:30", endTime: "03:00" },
+  status: "CONFIRMED",
+  sequence: 0,
+};
+
+function calendarLines(entries: CalendarEntry[]) {
+  return buildCalendar(entries, { stamp }).split("\r\n");
+}
+
+// The lines of each component of the given kind
+function components(lines: string[], kind: string) {
+  const found: string[][] = [];
+  lines.forEach((line, index) => {
+    if (line === `BEGIN:${kind}`) found.push(lines.slice(index, lines.indexOf(`END:${kind}`, index) + 1));
+  });
+  return found;
+}
+
+describe("buildCalendar", () => {
+  it("ends a timed event its duration after it starts, even across a DST change", () => {
+    const lines = calendarLines([springForward]);
+
+    expect(lines).toContain("DTSTART:20300310T063000Z");
+    expect(lines).toContain("DTEND:20300310T080000Z");
+    expect(components(lines, "VTIMEZONE")).toEqual([]);
+  });
+
+  it("defines the zone a recurring event refers to", () => {
+    const lines = calendarLines([{
+      ...springForward,
+      option: { ...springForward.option, date: null, weekday: 0 },
+      recurrence: { startDate: "2030-03-10", interval: 1 },
+    }]);
+
+    expect(lines).toContain("DTSTART;TZID=America/New_York:20300310T013000");
+    expect(lines).toContain("DTEND;TZID=America/New_York:20300310T040000");
+
+    const [timeZone] = components(lines, "VTIMEZONE");
+    expect(timeZone).toContain("TZID:America/New_York");
+    expect(lines.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(lines.indexOf("BEGIN:VEVENT"));
+    expect(components(timeZone, "DAYLIGHT")).toContainEqual([
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20300310T020000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+      "END:DAYLIGHT",
+    ]);
+    expect(components(timeZone, "STANDARD")).toContainEqual([
+      "BEGIN:STANDARD",
+      "DTSTART:20301103T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+      "END:STANDARD",
+    ]);
+  });
+
+  it("writes one VTIMEZONE per zone", () => {
+    const recurring = {
+      ...springForward,
+      option: { ...springForward.option, date: null, weekday: 0 },
+      recurrence: { startDate: "2030-03-10", interval: 2 },
+    };
+    const lines = calendarLines([recurring, { ...recurring, uid: "def@hangtime" }, { ...recurring, uid: "ghi@hangtime", timeZone: "UTC" }]);
+
+    expect(lines.filter(line => line.startsWith("TZID:"))).toEqual(["TZID:America/New_York", "TZID:UTC"]);
+  });
+});
+
+describe("parseBusyIntervals", () => {
+  const window = { start: new Date("2030-06-03T00:00:00Z"), end: new Date("2030-06-10T00:00:00Z") };
+
+  // A calendar of hour-long 09:00 New York events repeating by the given rule since 1980
+  function repeatingCalendar(rule: string, eventCount = 1) {
+    const events = Array.from({ length: eventCount }, (_, index) => [
+      "BEGIN:VEVENT",
+      `UID:${index}@example.com`,
+      "DTSTART;TZID=America/New_York:19800101T090000",
+      "DTEND;TZID=America/New_York:19800101T100000",
+      `RRULE:${rule}`,
+      "END:VEVENT",
+    ]);
+    return ["BEGIN:VCALENDAR", ...events.flat(), "END:VCALENDAR"].join("\r\n");
+  }
+
+  const daysSince1980 = (date: string) => (Date.parse(date) - Date.parse("1980-01-01")) / 86_400_000;
+  const startDates = (intervals: Array<{ start: Date }>) => intervals.map(interval => interval.start.toISOString());
+
+  it("counts the occurrences a DAILY rule skips towards its COUNT", () => {
+    // The last occurrence falls on June 5, 2030
+    const rule = `FREQ=DAILY;COUNT=${daysSince1980("2030-06-05") + 1}`;
+
+    expect(startDates(parseBusyIntervals(repeatingCalendar(rule), window, "UTC"))).toEqual([
+      "2030-06-03T13:00:00.000Z",
+      "2030-06-04T13:00:00.000Z",
+      "2030-06-05T13:00:00.000Z",
+    ]);
+  });
+
+  it("counts the occurrences a WEEKLY rule skips towards its COUNT", () => {
+    // Jan 1, 1980 was a Tuesday, so the first week holds Tuesday and Thursday only.
+    // Full weeks then run from Monday, Jan 7 up to Monday, June 3, 2030.
+    const fullWeeks = (daysSince1980("2030-06-03") - 6) / 7;
+    const rule = `FREQ=WEEKLY;BYDAY=MO,TU,TH;COUNT=${2 + fullWeeks * 3 + 2}`;
+
+    expect(startDates(parseBusyIntervals(repeatingCalendar(rule), window, "UTC"))).toEqual([
+      "2030-06-03T13:00:00.000Z",
+      "2030-06-04T13:00:00.000Z",
+    ]);
+  });
+
+  it("reads long COUNT rules without walking every occurrence", () => {
+    const started = Date.now();
+
+    const busy = parseBusyIntervals(repeatingCalendar("FREQ=DAILY;COUNT=1000000", 50), window, "UTC");
+
+    expect(busy).toHaveLength(50 * 7);
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+
+  it("refuses calendars with too many events", () => {
+    const calendar = repeatingCalendar("FREQ=YEARLY;COUNT=1", maxCalendarEvents + 1);
+
+    expect(() => parseBusyIntervals(calendar, window, "UTC")).toThrow(CalendarTooLargeError);
+  });
+
+  it("refuses calendars whose repeat rules need too much work to expand", () => {
+    // Each monthly rule walks 600 months from 1980 to reach its COUNT
+    const calendar = repeatingCalendar("FREQ=MONTHLY;BYDAY=MO;COUNT=1000000", 200);
+
+    expect(() => parseBusyIntervals(calendar, window, "UTC")).toThrow(CalendarTooLargeError);
+  });
+});
@@ -0,0 +1,565 @@
+import { addDays, isAllDay, type Duration } from "./duration";
+import {
+  fromZonedDateTime,
+  getOffset,
+  getOffsetTransitions,
+  getOptionInstants,
+  isValidTimeZone,
+  toZonedDateTime,
+  type OffsetTransition,
+} from "./time-zone";
+import { getOptionDate, weekdayOf, type Recurrence } from "./weekday";
+
+// iCalendar (RFC 5545) support: one-off files for a chosen time, live feeds for subscriptions,
+// and reading busy times from a participant's own calendar export
+
+export type CalendarEntryStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export interface CalendarEntry {
+  uid: string; // stays the same for the event, so re-importing updates instead of duplicating
+  title: string;
+  description: string | null;
+  url?: string;
+  duration: Duration;
+  timeZone: string; // zone the option's date and times are in
+  option: { date: string | null; weekday: number | null; startTime: string; endTime: string };
+  recurrence?: Recurrence | null;
+  status: CalendarEntryStatus;
+  sequence: number; // revision of the entry; calendars apply the highest one they've seen
+}
+
+interface CalendarOptions {
+  name?: string; // shown for subscribed feeds
+  refreshHours?: number; // how often subscribers should check for changes
+  stamp?: Date;
+}
+
+const productId = "-//HangTime//Event Scheduler//EN";
+
+// Commas, semicolons, backslashes and newlines are structural in TEXT values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let chunk = "";
+  let chunkLength = 0;
+  for (const char of Array.from(line)) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (chunkLength + charLength > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = "";
+      chunkLength = 0;
+    }
+    chunk += char;
+    chunkLength += charLength;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+// e.g. 20261103T170000Z
+export function formatUtcDateTime(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// e.g. 20261103, or 20261103T090000 for a wall-clock time
+const formatDateValue = (date: string) => date.replace(/-/g, "");
+const formatLocalDateTime = (date: string, time: string) => `${formatDateValue(date)}T${time.replace(":", "")}00`;
+
+function buildEventLines(entry: CalendarEntry, stamp: Date): string[] {
+  const { duration, timeZone, option, recurrence } = entry;
+  // A recurring weekday option starts on its schedule's first date
+  const date = recurrence?.startDate ?? getOptionDate(option);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}`,
+    `DTSTAMP:${formatUtcDateTime(stamp)}`,
+    `SEQUENCE:${entry.sequence}`,
+  ];
+
+  if (isAllDay(duration)) {
+    // All-day events end on the day after their last day
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(addDays(date, duration.value))}`);
+  } else if (recurrence) {
+    // Repeats keep their wall-clock time across DST changes, so they stay in the event's zone,
+    // which buildCalendar defines in a VTIMEZONE
+    const end = toZonedDateTime(getOptionInstants({ ...option, date }, duration, timeZone).end, timeZone);
+    lines.push(`DTSTART;TZID=${timeZone}:${formatLocalDateTime(date, option.startTime)}`);
+    lines.push(`DTEND;TZID=${timeZone}:${formatLocalDateTime(end.date, end.time)}`);
+  } else {
+    const { start, end } = getOptionInstants({ ...option, date }, duration, timeZone);
+    lines.push(`DTSTART:${formatUtcDateTime(start)}`);
+    lines.push(`DTEND:${formatUtcDateTime(end)}`);
+  }
+
+  if (recurrence) {
+    const until = !recurrence.until
+      ? ""
+      : isAllDay(duration)
+        ? `;UNTIL=${formatDateValue(recurrence.until)}`
+        : `;UNTIL=${formatUtcDateTime(fromZonedDateTime({ date: recurrence.until, time: "23:59" }, timeZone))}`;
+    lines.push(`RRULE:FREQ=WEEKLY;INTERVAL=${recurrence.interval}${until}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(entry.title)}`);
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  if (entry.url) {
+    lines.push(`URL:${entry.url}`);
+  }
+  lines.push(`STATUS:${entry.status}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+const byDayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// e.g. -0500 for five hours behind UTC
+function formatOffset(offset: number): string {
+  const minutes = Math.round(Math.abs(offset) / 60_000);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Wall-clock time of a transition on the clock before it, e.g. 20300310T020000 for a US spring-forward
+function formatTransitionTime(transition: OffsetTransition): string {
+  return formatUtcDateTime(new Date(transition.at.getTime() + transition.offsetBefore)).slice(0, -1);
+}
+
+// The yearly rule a transition's date fits, e.g. "FREQ=YEARLY;BYMONTH=3;BYDAY=2SU" for the second Sunday
+// in March. Dates in the last seven days of their month count from the end, so "-1SU" is the last Sunday.
+function yearlyRule(transition: OffsetTransition): string {
+  const local = formatTransitionTime(transition);
+  const [year, month, day] = [local.slice(0, 4), local.slice(4, 6), local.slice(6, 8)].map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${month};BYDAY=${week}${byDayCodes[weekday]}`;
+}
+
+function buildObservanceLines(start: string, offsetFrom: number, offsetTo: number, rule?: string): string[] {
+  const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    ...(rule ? [`RRULE:${rule}`] : []),
+    `END:${kind}`,
+  ];
+}
+
+// The zone's offsets from the start of `fromYear`, read from the runtime's time zone data. When the
+// changes in `fromYear` follow the same weekday rules for the two years after, each repeats yearly;
+// otherwise every change through `toYear` (at least two years on, at most twenty) is listed.
+function buildTimeZoneLines(timeZone: string, fromYear: number, toYear: number): string[] {
+  const yearStart = (year: number) => fromZonedDateTime({ date: `${year}-01-01`, time: "00:00" }, timeZone);
+  const lastYear = Math.min(Math.max(toYear, fromYear + 2), fromYear + 20);
+  const transitions = getOffsetTransitions(timeZone, yearStart(fromYear), yearStart(lastYear + 1));
+
+  const describe = (transition: OffsetTransition) =>
+    [yearlyRule(transition), formatTransitionTime(transition).slice(8), transition.offsetBefore, transition.offsetAfter].join("|");
+  const inYear = (year: number) => transitions.filter(transition => formatTransitionTime(transition).startsWith(String(year)));
+  const firstYear = inYear(fromYear);
+  const pattern = firstYear.map(describe).join(",");
+  const repeatsYearly = firstYear.length > 0
+    && [fromYear + 1, fromYear + 2].every(year => inYear(year).map(describe).join(",") === pattern);
+
+  // Everything before the first change keeps the offset the year starts with
+  const startOffset = getOffset(yearStart(fromYear), timeZone);
+  const initial = buildObservanceLines(`${fromYear}0101T000000`, transitions[0]?.offsetAfter ?? startOffset, startOffset);
+  const changes = repeatsYearly
+    ? firstYear.flatMap(transition =>
+        buildObservanceLines(formatTransitionTime(transition), transition.offsetBefore, transition.offsetAfter, yearlyRule(transition)))
+    : transitions.flatMap(transition =>
+        buildObservanceLines(formatTransitionTime(transition), transition.offsetBefore, transition.offsetAfter));
+
+  return ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, ...initial, ...changes, "END:VTIMEZONE"];
+}
+
+// A complete VCALENDAR document with CRLF line endings
+export function buildCalendar(entries: CalendarEntry[], { name, refreshHours, stamp = new Date() }: CalendarOptions = {}): string {
+  // Recurring timed entries name their zone by TZID, which must be defined in the same document
+  const zoneYears = new Map<string, { from: number; to: number }>();
+  for (const { duration, timeZone, recurrence } of entries) {
+    if (!recurrence || isAllDay(duration)) continue;
+    const from = Number(recurrence.startDate.slice(0, 4));
+    const to = Number((recurrence.until ?? recurrence.startDate).slice(0, 4));
+    const known = zoneYears.get(timeZone);
+    zoneYears.set(timeZone, { from: Math.min(from, known?.from ?? from), to: Math.max(to, known?.to ?? to) });
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${productId}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...(refreshHours ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshHours}H`, `X-PUBLISHED-TTL:PT${refreshHours}H`] : []),
+    ...Array.from(zoneYears).flatMap(([timeZone, { from, to }]) => buildTimeZoneLines(timeZone, from, to)),
+    ...entries.flatMap(entry => buildEventLines(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// A safe download name such as "team-offsite.ics", or "team-offsite-results.csv" for other exports
+export function downloadFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return `${slug || "event"}.${extension}`;
+}
+
+export function calendarFileName(title: string): string {
+  return downloadFileName(title, "ics");
+}
+
+// --- Import: busy times from someone's own calendar export ---
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  summary: string | null;
+}
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+type Component = Map<string, Property[]>;
+
+// A DATE or DATE-TIME value as wall-clock parts; time is null for whole-day values
+interface ParsedDateTime {
+  date: string;
+  time: string | null;
+  timeZone: string;
+}
+
+// Expanding one rule never looks at more candidate dates than this
+const maxRecurrenceSteps = 20_000;
+
+// Limits for one uploaded calendar, so a small file can't keep the server busy: how many events it
+// may hold, and how many candidate dates all of its repeat rules may look at together
+export const maxCalendarEvents = 10_000;
+const maxCandidateDates = 50_000;
+
+// The calendar is over one of the limits above
+export class CalendarTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarTooLargeError";
+  }
+}
+
+// Candidate dates left for the rest of the calendar's repeat rules
+interface ExpansionBudget {
+  remaining: number;
+}
+
+const icalWeekdays = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\;,nN])/g, (_match, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// NAME;PARAM=value;PARAM="quoted":VALUE
+function parseContentLine(line: string): { name: string; property: Property } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const [key, ...rest] = rawParam.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+// Top-level VEVENTs; alarms and other nested components are skipped
+function readEvents(text: string): Component[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const found: Component[] = [];
+  let current: Component | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const parsed = parseContentLine(line.trim());
+    if (!parsed) continue;
+    const { name, property } = parsed;
+    const value = property.value.toUpperCase();
+
+    if (name === "BEGIN") {
+      if (value === "VEVENT" && !current) {
+        current = new Map();
+      } else if (current) {
+        nestedDepth++;
+      }
+    } else if (name === "END") {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value === "VEVENT") {
+        found.push(current);
+        current = null;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.set(name, [...(current.get(name) ?? []), property]);
+    }
+  }
+  return found;
+}
+
+// Unknown zones, such as Windows names from Outlook, and floating times fall back to the participant's zone
+function parseDateTime(value: string, params: Record<string, string>, defaultTimeZone: string): ParsedDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hours === undefined) {
+    return { date, time: null, timeZone: defaultTimeZone };
+  }
+  const timeZone = utc ? "UTC" : params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTimeZone;
+  return { date, time: `${hours}:${minutes}`, timeZone };
+}
+
+const toInstant = (value: ParsedDateTime) => fromZonedDateTime({ date: value.date, time: value.time ?? "00:00" }, value.timeZone);
+
+// e.g. PT1H30M, P1D, P2W; returns whole days and remaining milliseconds separately
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => parseInt(part ?? "0", 10));
+  return { days: weeks * 7 + days, ms: ((hours * 60 + minutes) * 60 + seconds) * 1000 };
+}
+
+function addMonths(date: string, months: number): string {
+  const [year, month] = date.split("-").map(Number);
+  const total = year * 12 + (month - 1) + months;
+  return `${Math.floor(total / 12)}-${String(total % 12 + 1).padStart(2, "0")}-01`;
+}
+
+function daysInMonth(monthStart: string): number {
+  const [year, month] = monthStart.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Dates in a month matching BYDAY entries such as TU, 2TU or -1FR, or BYMONTHDAY entries such as 15 or -1
+function monthDates(monthStart: string, byDay: string[], byMonthDay: number[]): string[] {
+  const length = daysInMonth(monthStart);
+  const dates = new Set<string>();
+
+  for (const day of byMonthDay) {
+    const dayNumber = day > 0 ? day : length + day + 1;
+    if (dayNumber >= 1 && dayNumber <= length) dates.add(addDays(monthStart, dayNumber - 1));
+  }
+  for (const entry of byDay) {
+    const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(entry);
+    const weekday = match ? icalWeekdays.indexOf(match[2]) : -1;
+    if (weekday === -1) continue;
+
+    // Days of the month falling on that weekday, counted from the first one
+    const firstDay = (weekday - weekdayOf(monthStart) + 7) % 7;
+    const matching = Array.from({ length: Math.ceil((length - firstDay) / 7) }, (_, i) => firstDay + i * 7);
+    const ordinal = match![1] ? parseInt(match![1], 10) : 0;
+    const picked = ordinal === 0 ? matching : [ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]];
+    picked.forEach(day => day !== undefined && dates.add(addDays(monthStart, day)));
+  }
+  return Array.from(dates).sort();
+}
+
+// Start dates produced by an RRULE, in the DTSTART's own zone, from `earliestDate` to the end of the window.
+// Supports DAILY, WEEKLY (BYDAY), MONTHLY (BYDAY with ordinals, BYMONTHDAY) and YEARLY rules.
+function expandRule(
+  rule: string,
+  start: ParsedDateTime,
+  earliestDate: string,
+  windowEnd: Date,
+  defaultTimeZone: string,
+  budget: ExpansionBudget,
+): string[] {
+  const parts = Object.fromEntries(rule.split(";").map(part => {
+    const [key, value = ""] = part.split("=");
+    return [key.toUpperCase(), value.toUpperCase()];
+  }));
+  const interval = Math.max(1, parseInt(parts.INTERVAL ?? "1", 10) || 1);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : Infinity;
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL, {}, start.time === null ? start.timeZone : defaultTimeZone) : null;
+  const untilInstant = until ? toInstant(until.time === null ? { ...until, time: "23:59" } : until) : null;
+  const byDay = parts.BYDAY ? parts.BYDAY.split(",") : [];
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",").map(Number).filter(Number.isFinite) : [];
+
+  // Candidate dates for the period that begins `step` intervals after DTSTART's
+  const periodDates = (step: number): string[] => {
+    switch (parts.FREQ) {
+      case "DAILY":
+        return [addDays(start.date, step * interval)];
+      case "WEEKLY": {
+        // Weeks run Monday to Sunday, the iCalendar default
+        const weekStart = addDays(start.date, -((weekdayOf(start.date) + 6) % 7) + step * interval * 7);
+        const weekdays = byDay.length > 0 ? byDay.map(day => icalWeekdays.indexOf(day)).filter(day => day !== -1) : [weekdayOf(start.date)];
+        return Array.from(new Set(weekdays)).map(weekday => addDays(weekStart, (weekday + 6) % 7)).sort();
+      }
+      case "MONTHLY": {
+        const monthStart = addMonths(start.date, step * interval);
+        return byDay.length > 0 || byMonthDay.length > 0
+          ? monthDates(monthStart, byDay, byMonthDay)
+          : monthDates(monthStart, [], [parseInt(start.date.slice(8), 10)]);
+      }
+      case "YEARLY": {
+        const sameDay = addMonths(start.date, step * interval * 12);
+        return monthDates(sameDay, [], [parseInt(start.date.slice(8), 10)]);
+      }
+      default:
+        return step === 0 ? [start.date] : [];
+    }
+  };
+
+  // Dates compare as strings; only the last day of the window or of the rule needs the exact instant
+  const windowEndDate = toZonedDateTime(windowEnd, start.timeZone).date;
+  const untilDate = untilInstant ? toZonedDateTime(untilInstant, start.timeZone).date : null;
+  const isPastEnd = (date: string) => {
+    if (date > windowEndDate || (untilDate && date > untilDate)) return true;
+    if (date < windowEndDate && (!untilDate || date < untilDate)) return false;
+    const instant = toInstant({ ...start, date });
+    return instant > windowEnd || (untilInstant !== null && instant > untilInstant);
+  };
+
+  // Long-running rules skip ahead to just before the earliest date of interest. DAILY and WEEKLY
+  // periods always hold the same dates, so rules with a COUNT can skip too, counting what they pass.
+  const daysBefore = (Date.parse(earliestDate) - Date.parse(start.date)) / 86_400_000;
+  const periodDays = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 }[parts.FREQ as string] ?? Infinity;
+  let firstStep = Math.max(0, Math.floor(daysBefore / (periodDays * interval)) - 1);
+  let produced = 0;
+  if (firstStep > 0 && count !== Infinity) {
+    if (parts.FREQ === "DAILY") {
+      produced = firstStep;
+    } else if (parts.FREQ === "WEEKLY") {
+      produced = periodDates(0).filter(date => date >= start.date).length + (firstStep - 1) * periodDates(1).length;
+    } else {
+      firstStep = 0;
+    }
+    if (produced >= count) return [];
+  }
+
+  const dates: string[] = [];
+  for (let step = firstStep; step < firstStep + maxRecurrenceSteps; step++) {
+    const candidates = periodDates(step);
+    budget.remaining -= Math.max(1, candidates.length);
+    if (budget.remaining < 0) {
+      throw new CalendarTooLargeError("The calendar has too many repeating events to read");
+    }
+    if (candidates.length === 0 && !["MONTHLY", "YEARLY"].includes(parts.FREQ)) break;
+
+    for (const date of candidates) {
+      if (date < start.date) continue;
+      if (produced >= count || isPastEnd(date)) {
+        return dates;
+      }
+      produced++;
+      if (date >= earliestDate) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// Busy periods from an iCalendar document that overlap the window. Cancelled and
+// free ("TRANSPARENT") entries are ignored, and moved or removed repeats are respected.
+export function parseBusyIntervals(text: string, window: { start: Date; end: Date }, defaultTimeZone: string): BusyInterval[] {
+  const vevents = readEvents(text);
+  if (vevents.length > maxCalendarEvents) {
+    throw new CalendarTooLargeError(`The calendar has more than ${maxCalendarEvents.toLocaleString("en-US")} events`);
+  }
+  const budget: ExpansionBudget = { remaining: maxCandidateDates };
+  const first = (component: Component, name: string) => component.get(name)?.[0];
+
+  // Instances of a repeating event that were moved are listed separately with a RECURRENCE-ID
+  const overridden = new Set<string>();
+  for (const component of vevents) {
+    const uid = first(component, "UID")?.value;
+    const recurrenceId = first(component, "RECURRENCE-ID");
+    const parsed = recurrenceId && parseDateTime(recurrenceId.value, recurrenceId.params, defaultTimeZone);
+    if (uid && parsed) overridden.add(`${uid}|${toInstant(parsed).getTime()}`);
+  }
+
+  const intervals: BusyInterval[] = [];
+  for (const component of vevents) {
+    if (first(component, "STATUS")?.value.toUpperCase() === "CANCELLED") continue;
+    if (first(component, "TRANSP")?.value.toUpperCase() === "TRANSPARENT") continue;
+
+    const startProperty = first(component, "DTSTART");
+    const start = startProperty && parseDateTime(startProperty.value, startProperty.params, defaultTimeZone);
+    if (!start) continue;
+
+    // Length as whole days for date values, or milliseconds for timed ones
+    const endProperty = first(component, "DTEND");
+    const end = endProperty && parseDateTime(endProperty.value, endProperty.params, defaultTimeZone);
+    const duration = parseDuration(first(component, "DURATION")?.value ?? "");
+    let lengthDays = 0;
+    let lengthMs = 0;
+    if (start.time === null) {
+      lengthDays = end ? Math.max(1, Math.round((Date.parse(end.date) - Date.parse(start.date)) / 86_400_000)) : Math.max(1, duration?.days ?? 1);
+    } else if (end) {
+      lengthMs = toInstant(end).getTime() - toInstant(start).getTime();
+    } else if (duration) {
+      lengthMs = duration.days * 86_400_000 + duration.ms;
+    }
+
+    const uid = first(component, "UID")?.value;
+    const excluded = new Set(
+      (component.get("EXDATE") ?? []).flatMap(exdate =>
+        exdate.value.split(",").flatMap(value => {
+          const parsed = parseDateTime(value, exdate.params, start.timeZone);
+          return parsed ? [toInstant(parsed.time === null ? { ...parsed, time: start.time, timeZone: start.timeZone } : parsed).getTime()] : [];
+        })
+      )
+    );
+
+    const rule = first(component, "RRULE")?.value;
+    const isOverride = component.has("RECURRENCE-ID");
+    // Repeats starting earlier than this end before the window does
+    const spanDays = start.time === null ? lengthDays : Math.max(0, Math.ceil(lengthMs / 86_400_000));
+    const windowStartDate = toZonedDateTime(window.start, start.timeZone).date;
+    const earliestDate = Date.parse(windowStartDate) - Date.parse(start.date) > (spanDays + 1) * 86_400_000
+      ? addDays(windowStartDate, -spanDays - 1)
+      : start.date;
+    const dates = rule && !isOverride ? expandRule(rule, start, earliestDate, window.end, defaultTimeZone, budget) : [start.date];
+    const summary = first(component, "SUMMARY");
+
+    for (const date of dates) {
+      const occurrenceStart = toInstant({ ...start, date });
+      if (excluded.has(occurrenceStart.getTime())) continue;
+      if (rule && !isOverride && uid && overridden.has(`${uid}|${occurrenceStart.getTime()}`)) continue;
+
+      const occurrenceEnd = start.time === null
+        ? toInstant({ ...start, date: addDays(date, lengthDays) })
+        : new Date(occurrenceStart.getTime() + lengthMs);
+      if (occurrenceEnd > window.start && occurrenceStart < window.end) {
+        intervals.push({ start: occurrenceStart, end: occurrenceEnd, summary: summary ? unescapeText(summary.value) : null });
+      }
+    }
+  }
+  return intervals;
+}
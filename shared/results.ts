@@ -0,0 +1,153 @@
+import { calculateEndDate, isAllDay, type Duration } from "./duration";
+import { compareTimeOptions } from "./scheduling";
+import { formatTimeZoneAbbreviation } from "./time-zone";
+import { getOptionDate, weekdayNames } from "./weekday";
+import type { EventStatus, EventWithDetails, TimeOption } from "./schema";
+
+// Poll results as a participant × time-option matrix, for spreadsheet and script exports
+
+export const responseStatuses = ["available", "maybe", "unavailable"] as const;
+export type ResponseStatus = typeof responseStatuses[number];
+
+export const responseStatusLabels: Record<ResponseStatus, string> = {
+  available: "Available",
+  maybe: "Maybe",
+  unavailable: "Not available",
+};
+
+export interface ResultsOption {
+  id: number;
+  label: string; // e.g. "2026-11-06 10:00-11:30 CET", in the event's time zone
+  date: string | null;
+  weekday: number | null;
+  startTime: string;
+  endTime: string;
+  totals: Record<ResponseStatus, number> & { noAnswer: number };
+}
+
+export interface ResultsParticipant {
+  id: number;
+  name: string;
+  responses: Record<number, ResponseStatus | null>; // keyed by time option id; null where they didn't answer
+}
+
+export interface ResultsExport {
+  event: {
+    shareId: string;
+    title: string;
+    status: EventStatus;
+    timeZone: string;
+    duration: Duration;
+    confirmedTimeOptionId: number | null;
+  };
+  timeOptions: ResultsOption[];
+  participants: ResultsParticipant[];
+}
+
+// A plain, sortable label for an option column, e.g. "2026-11-06 10:00-11:30 CET" or "Mondays 18:00-19:00 CET"
+export function formatOptionLabel(option: Pick<TimeOption, "date" | "weekday" | "startTime" | "endTime">, duration: Duration, timeZone: string): string {
+  if (isAllDay(duration)) {
+    if (option.date === null) {
+      return `${weekdayNames[option.weekday ?? 0]}s`;
+    }
+    const endDate = calculateEndDate(option.date, "", duration);
+    return endDate === option.date ? option.date : `${option.date} to ${endDate}`;
+  }
+
+  const zone = formatTimeZoneAbbreviation(timeZone, getOptionDate(option));
+  if (option.date === null) {
+    return `${weekdayNames[option.weekday ?? 0]}s ${option.startTime}-${option.endTime} ${zone}`;
+  }
+  const endDate = calculateEndDate(option.date, option.startTime, duration);
+  return endDate === option.date
+    ? `${option.date} ${option.startTime}-${option.endTime} ${zone}`
+    : `${option.date} ${option.startTime} to ${endDate} ${option.endTime} ${zone}`;
+}
+
+function isResponseStatus(status: string): status is ResponseStatus {
+  return (responseStatuses as readonly string[]).includes(status);
+}
+
+// Everyone who answered, in the order they responded, with their answer for every option
+export function buildResultsExport(event: EventWithDetails): ResultsExport {
+  const options = [...event.timeOptions].sort(compareTimeOptions);
+
+  const participants = new Map<number, ResultsParticipant>();
+  for (const option of options) {
+    for (const participant of option.participants) {
+      if (!participants.has(participant.id)) {
+        participants.set(participant.id, { id: participant.id, name: participant.name, responses: {} });
+      }
+    }
+  }
+  const rows = Array.from(participants.values()).sort((a, b) => a.id - b.id);
+
+  for (const option of options) {
+    const answers = new Map(option.participants.map(participant => [participant.id, participant.status]));
+    for (const row of rows) {
+      const status = answers.get(row.id);
+      row.responses[option.id] = status !== undefined && isResponseStatus(status) ? status : null;
+    }
+  }
+
+  return {
+    event: {
+      shareId: event.shareId,
+      title: event.title,
+      status: event.status,
+      timeZone: event.timeZone,
+      duration: event.duration,
+      confirmedTimeOptionId: event.confirmedTimeOptionId,
+    },
+    timeOptions: options.map(option => {
+      const totals = { available: 0, maybe: 0, unavailable: 0, noAnswer: 0 };
+      for (const row of rows) {
+        const status = row.responses[option.id];
+        totals[status ?? "noAnswer"]++;
+      }
+      return {
+        id: option.id,
+        label: formatOptionLabel(option, event.duration, event.timeZone),
+        date: option.date,
+        weekday: option.weekday,
+        startTime: option.startTime,
+        endTime: option.endTime,
+        totals,
+      };
+    }),
+    participants: rows,
+  };
+}
+
+// Labels for the totals rows below the matrix, and which count each one shows
+export const resultsTotalRows: Array<[string, keyof ResultsOption["totals"]]> = [
+  ...responseStatuses.map((status): [string, ResponseStatus] => [`Total ${responseStatusLabels[status].toLowerCase()}`, status]),
+  ["Total no answer", "noAnswer"],
+];
+
+// Quotes a CSV field when needed, and defuses names that spreadsheet apps would otherwise run as formulas
+function csvField(value: string | number): string {
+  if (typeof value === "number") {
+    return String(value);
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per participant and one column per option, followed by a totals row for each answer.
+// Starts with a byte order mark so Excel reads non-ASCII names correctly.
+export function formatResultsCsv(results: ResultsExport): string {
+  const rows: Array<Array<string | number>> = [
+    ["Participant", ...results.timeOptions.map(option => option.label)],
+    ...results.participants.map(participant => [
+      participant.name,
+      ...results.timeOptions.map(option => {
+        const status = participant.responses[option.id];
+        return status ? responseStatusLabels[status] : "";
+      }),
+    ]),
+    ...resultsTotalRows.map(([label, key]) => [label, ...results.timeOptions.map(option => option.totals[key])]),
+  ];
+
+  return "\uFEFF" + rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,82 @@
+import type { TimeOption, TimeOptionWithAvailability } from "./schema";
+
+export function getBestTimeSlotIds(timeOptions: TimeOptionWithAvailability[]): number[] {
+  if (timeOptions.length === 0) return [];
+
+  // Check if there are any responses at all
+  const totalResponses = timeOptions.reduce(
+    (sum, option) => sum + option.availabilityCount.total,
+    0
+  );
+  if (totalResponses === 0) return [];
+
+  // Find max available count
+  const maxAvailable = Math.max(
+    ...timeOptions.map(option => option.availabilityCount.available)
+  );
+
+  // Filter to options matching max available
+  const topAvailableOptions = timeOptions.filter(
+    option => option.availabilityCount.available === maxAvailable
+  );
+
+  // Among those, find max maybe count
+  const maxMaybe = Math.max(
+    ...topAvailableOptions.map(option => option.availabilityCount.maybe)
+  );
+
+  // Return IDs of all options matching both max available AND max maybe
+  return topAvailableOptions
+    .filter(option => option.availabilityCount.maybe === maxMaybe)
+    .map(option => option.id);
+}
+
+// Orders time options chronologically by date (or weekday, for weekday options), then start time
+export function compareTimeOptions(a: Pick<TimeOption, "date" | "weekday" | "startTime">, b: Pick<TimeOption, "date" | "weekday" | "startTime">): number {
+  if (a.date !== b.date) return (a.date ?? "") < (b.date ?? "") ? -1 : 1;
+  if (a.weekday !== b.weekday) return (a.weekday ?? -1) < (b.weekday ?? -1) ? -1 : 1;
+  if (a.startTime !== b.startTime) return a.startTime < b.startTime ? -1 : 1;
+  return 0;
+}
+
+// Picks a single best option, breaking ties in favour of the earliest one
+export function pickBestTimeSlotId(timeOptions: TimeOptionWithAvailability[]): number | undefined {
+  const bestIds = getBestTimeSlotIds(timeOptions);
+  const [earliest] = timeOptions
+    .filter(option => bestIds.includes(option.id))
+    .sort(compareTimeOptions);
+  return earliest?.id;
+}
+
+export type SummaryStats = {
+  available: number;
+  maybe: number;
+  unavailable: number;
+  total: number;
+};
+
+// Counts each option's answers and ranks the options by available, then maybe, responses
+export function calculateSummaryStats<T extends Pick<TimeOptionWithAvailability, "participants">>(timeOptions: T[]): Array<T & { stats: SummaryStats }> {
+  return timeOptions.map(option => {
+    const available = option.participants.filter(p => p.status === "available").length;
+    const maybe = option.participants.filter(p => p.status === "maybe").length;
+    const unavailable = option.participants.filter(p => p.status === "unavailable").length;
+    const total = available + maybe + unavailable;
+
+    return {
+      ...option,
+      stats: {
+        available,
+        maybe,
+        unavailable,
+        total
+      }
+    };
+  }).sort((a, b) => {
+    // Sort by available participants first, then by maybe responses
+    if (b.stats.available !== a.stats.available) {
+      return b.stats.available - a.stats.available;
+    }
+    return b.stats.maybe - a.stats.maybe;
+  });
+}
@@ -1,52 +1,130 @@
-import { pgTable, text, serial, integer, timestamp, json } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, timestamp, json, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { durationSchema, type Duration } from "./duration";
+import { timeZoneSchema } from "./time-zone";
+import { gridConfigSchema, type GridConfig } from "./grid";
+import type { Recurrence } from "./weekday";
+import type { SeriesRule } from "./series";
+import type { EventPattern } from "./template";
+
+// "poll" lists hand-picked dated options, "grid" generates slots from gridConfig,
+// "weekly" lists weekday options with no calendar date
+export const eventKinds = ["poll", "grid", "weekly"] as const;
+export type EventKind = typeof eventKinds[number];
+
+// Only open events take responses; see shared/status.ts for the allowed changes
+export const eventStatuses = ["draft", "open", "closed", "confirmed", "cancelled"] as const;
+export type EventStatus = typeof eventStatuses[number];
 
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description"),
-  duration: text("duration").notNull(), // e.g., "1 hour", "2 hours", "30 minutes"
+  duration: json("duration").$type<Duration>().notNull(), // e.g. { unit: "minutes", value: 90 } or { unit: "days", value: 3 }
+  timeZone: text("time_zone").notNull().default("UTC"), // IANA zone the time options' dates and times are in
+  kind: text("kind").$type<EventKind>().notNull().default("poll"), // one of eventKinds
+  gridConfig: json("grid_config").$type<GridConfig>(), // date range, daily window and slot size for grid events
+  status: text("status").$type<EventStatus>().notNull().default("open"), // one of eventStatuses
   shareId: text("share_id").notNull().unique(), // unique identifier for sharing
+  adminToken: text("admin_token").notNull().unique().default(sql`gen_random_uuid()::text`), // secret for organizer actions, never exposed publicly
+  confirmedTimeOptionId: integer("confirmed_time_option_id") // the time option the organizer locked in
+    .references((): AnyPgColumn => timeOptions.id, { onDelete: "set null" }),
+  confirmedAt: timestamp("confirmed_at"),
+  recurrence: json("recurrence").$type<Recurrence>(), // repeating schedule for a confirmed weekday option
+  responseDeadline: timestamp("response_deadline"), // responses are rejected once this has passed
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"), // shown to participants, optional
+  sequence: integer("sequence").notNull().default(0), // iCalendar SEQUENCE, bumped whenever the event's calendar entries change
+  seriesId: integer("series_id"), // id of the first event of the series this event belongs to
+  seriesRule: json("series_rule").$type<SeriesRule>(), // how the next round of the series shifts this round's dates
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const timeOptions = pgTable("time_options", {
   id: serial("id").primaryKey(),
-  eventId: integer("event_id").notNull(),
-  date: text("date").notNull(), // YYYY-MM-DD format
-  startTime: text("start_time").notNull(), // HH:MM format
-  endTime: text("end_time").notNull(), // HH:MM format
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  date: text("date"), // YYYY-MM-DD format, null for weekday options
+  weekday: integer("weekday"), // 0 (Sunday) to 6, only for weekday options
+  startTime: text("start_time").notNull(), // HH:MM format, "00:00" for all-day events
+  endTime: text("end_time").notNull(), // HH:MM format, derived from startTime and the event duration
 });
 
 export const participants = pgTable("participants", {
   id: serial("id").primaryKey(),
-  eventId: integer("event_id").notNull(),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
+  editToken: text("edit_token").notNull().unique().default(sql`gen_random_uuid()::text`), // secret that lets the participant change their answers
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Names are unique per event, ignoring case
+  uniqueIndex("participants_event_name_idx").on(table.eventId, sql`lower(${table.name})`),
+]);
 
 export const availability = pgTable("availability", {
   id: serial("id").primaryKey(),
-  participantId: integer("participant_id").notNull(),
-  timeOptionId: integer("time_option_id").notNull(),
+  participantId: integer("participant_id").notNull().references(() => participants.id, { onDelete: "cascade" }),
+  timeOptionId: integer("time_option_id").notNull().references(() => timeOptions.id, { onDelete: "cascade" }),
   status: text("status").notNull(), // "available", "maybe", "unavailable"
+}, (table) => [
+  uniqueIndex("availability_participant_time_option_idx").on(table.participantId, table.timeOptionId),
+]);
+
+// Reusable event formats, e.g. "90-minute design review, weekday afternoons"
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  duration: json("duration").$type<Duration>().notNull(),
+  timeZone: text("time_zone").notNull(),
+  kind: text("kind").$type<EventKind>().notNull(),
+  pattern: json("pattern").$type<EventPattern>().notNull(), // options relative to the first day, see shared/template.ts
+  shareId: text("share_id").notNull().unique(), // unguessable identifier for template links
+  adminToken: text("admin_token").notNull().unique().default(sql`gen_random_uuid()::text`), // lets whoever saved the template delete it, never exposed publicly
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Insert schemas
-export const insertEventSchema = createInsertSchema(events).omit({
+export const insertEventSchema = createInsertSchema(events, {
+  title: (schema) => schema.trim().min(1, "Event title is required"),
+  duration: durationSchema,
+  timeZone: timeZoneSchema,
+  kind: z.enum(eventKinds).optional(),
+  gridConfig: gridConfigSchema.nullable().optional(),
+  responseDeadline: z.coerce.date().nullable().optional(), // sent as an ISO string
+}).omit({
   id: true,
   shareId: true,
+  adminToken: true,
+  confirmedTimeOptionId: true,
+  confirmedAt: true,
+  status: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  sequence: true,
+  recurrence: true,
+  seriesId: true,
+  seriesRule: true,
   createdAt: true,
 });
 
+export const insertTemplateSchema = createInsertSchema(templates, {
+  name: (schema) => schema.trim().min(1, "Template name is required"),
+}).pick({
+  name: true,
+});
+
 export const insertTimeOptionSchema = createInsertSchema(timeOptions).omit({
   id: true,
 });
 
-export const insertParticipantSchema = createInsertSchema(participants).omit({
+export const insertParticipantSchema = createInsertSchema(participants, {
+  name: (schema) => schema.trim().min(1, "Please enter your name"),
+}).omit({
   id: true,
+  editToken: true,
   createdAt: true,
 });
 
@@ -56,7 +134,11 @@ export const insertAvailabilitySchema = createInsertSchema(availability).omit({
 
 // Types
 export type Event = typeof events.$inferSelect;
+export type PublicEvent = Omit<Event, "adminToken">;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
+export type Template = typeof templates.$inferSelect;
+export type PublicTemplate = Omit<Template, "adminToken">;
+export type InsertTemplate = Omit<Template, "id" | "shareId" | "adminToken" | "createdAt">;
 export type TimeOption = typeof timeOptions.$inferSelect;
 export type InsertTimeOption = z.infer<typeof insertTimeOptionSchema>;
 export type Participant = typeof participants.$inferSelect;
@@ -116,7 +198,32 @@ export const availabilityRelations = relations(availability, ({ one }) => ({
   }),
 }));
 
-export type EventWithDetails = Event & {
+export type EventWithDetails = PublicEvent & {
   timeOptions: TimeOptionWithAvailability[];
   participantCount: number;
 };
+
+// One round of a series, as listed for browsing past and upcoming rounds
+export type SeriesInstance = Pick<PublicEvent, "id" | "shareId" | "title" | "status" | "createdAt" | "confirmedAt" | "cancelledAt" | "cancellationReason"> & {
+  confirmedTimeOption: TimeOption | null;
+  participantCount: number;
+};
+
+export type ParticipantResponse = {
+  id: number;
+  name: string;
+  availability: Array<{
+    timeOptionId: number;
+    status: string;
+  }>;
+};
+
+// Suggested answers worked out from a participant's own calendar, which is never stored
+export type CalendarSuggestions = {
+  busyCount: number; // busy periods found around the event's options
+  suggestions: Array<{
+    timeOptionId: number;
+    status: "available" | "unavailable";
+    conflicts: string[]; // titles of the overlapping calendar entries
+  }>;
+};
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { addDays } from "./duration";
+import { weekdayOf } from "./weekday";
+
+// How far each new round of a series moves the previous round's dates.
+// "months" keeps the weekday and its place in the month, e.g. 2nd Tuesday -> 2nd Tuesday.
+export const seriesRuleSchema = z.object({
+  unit: z.enum(["weeks", "months"]),
+  interval: z.number().int().min(1, "The interval must be at least 1").max(12, "The interval can be at most 12"),
+});
+
+export type SeriesRule = z.infer<typeof seriesRuleSchema>;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Moves a YYYY-MM-DD date forward by the rule
+export function shiftDate(date: string, rule: SeriesRule): string {
+  if (rule.unit === "weeks") {
+    return addDays(date, rule.interval * 7);
+  }
+
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = weekdayOf(date);
+  const occurrence = Math.ceil(day / 7); // 1st, 2nd, ... weekday of its month
+
+  const targetIndex = month - 1 + rule.interval;
+  const targetYear = year + Math.floor(targetIndex / 12);
+  const targetMonth = targetIndex % 12 + 1;
+  const monthStart = `${targetYear}-${String(targetMonth).padStart(2, "0")}-01`;
+  const firstMatch = 1 + (weekday - weekdayOf(monthStart) + 7) % 7;
+
+  // A 5th weekday that the target month doesn't have falls back to its last one
+  let targetDay = firstMatch + (occurrence - 1) * 7;
+  if (targetDay > daysInMonth(targetYear, targetMonth)) {
+    targetDay -= 7;
+  }
+  return addDays(monthStart, targetDay - 1);
+}
+
+// e.g. "Same weekdays every 2 months"
+export function formatSeriesRule(rule: SeriesRule): string {
+  if (rule.unit === "weeks") {
+    return rule.interval === 1 ? "Every week" : `Every ${rule.interval} weeks`;
+  }
+  return rule.interval === 1 ? "Same weekdays next month" : `Same weekdays every ${rule.interval} months`;
+}
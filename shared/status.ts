@@ -0,0 +1,23 @@
+import type { EventStatus } from "./schema";
+
+// Where an organizer can move an event from each status. "confirmed" is only
+// reached by confirming a time, and a cancelled event stays cancelled.
+const statusTransitions: Record<EventStatus, EventStatus[]> = {
+  draft: ["open", "cancelled"],
+  open: ["draft", "closed", "confirmed", "cancelled"],
+  closed: ["open", "confirmed", "cancelled"],
+  confirmed: ["open", "cancelled"],
+  cancelled: [],
+};
+
+export function canChangeStatus(from: EventStatus, to: EventStatus): boolean {
+  return statusTransitions[from].includes(to);
+}
+
+export const statusLabels: Record<EventStatus, string> = {
+  draft: "Draft",
+  open: "Open",
+  closed: "Closed",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+};
@@ -0,0 +1,68 @@
+import { addDays } from "./duration";
+import { getGridDates, type GridConfig } from "./grid";
+import { nextDateOnWeekday, weekdayOf } from "./weekday";
+
+// The shape of an event's options with the dates taken out: dated options keep
+// their distance in days from the first one, so the pattern can be laid down
+// again from any start date. Weekday options have no dates to move.
+export interface EventPattern {
+  startWeekday: number | null; // weekday the source started on, to suggest a similar start
+  options: Array<{ dayOffset: number | null; weekday: number | null; startTime: string }>;
+  grid: (Omit<GridConfig, "startDate" | "endDate"> & { days: number }) | null;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+export function patternFromEvent(event: {
+  gridConfig: GridConfig | null;
+  timeOptions: Array<{ date: string | null; weekday: number | null; startTime: string }>;
+}): EventPattern {
+  if (event.gridConfig) {
+    const { startDate, dayStartTime, dayEndTime, slotMinutes } = event.gridConfig;
+    return {
+      startWeekday: weekdayOf(startDate),
+      options: [],
+      grid: { days: getGridDates(event.gridConfig).length, dayStartTime, dayEndTime, slotMinutes },
+    };
+  }
+
+  const dates = event.timeOptions.flatMap(option => option.date !== null ? [option.date] : []).sort();
+  const firstDate = dates[0];
+  return {
+    startWeekday: firstDate ? weekdayOf(firstDate) : null,
+    options: event.timeOptions.map(option => ({
+      dayOffset: option.date !== null && firstDate ? daysBetween(firstDate, option.date) : null,
+      weekday: option.weekday,
+      startTime: option.startTime,
+    })),
+    grid: null,
+  };
+}
+
+// Lays the pattern down again with its first day on startDate
+export function applyPattern(pattern: EventPattern, startDate: string): {
+  timeOptions: Array<{ date: string | null; weekday: number | null; startTime: string }>;
+  gridConfig: GridConfig | null;
+} {
+  return {
+    timeOptions: pattern.options.map(option => ({
+      date: option.dayOffset !== null ? addDays(startDate, option.dayOffset) : null,
+      weekday: option.weekday,
+      startTime: option.startTime,
+    })),
+    gridConfig: pattern.grid && {
+      startDate,
+      endDate: addDays(startDate, pattern.grid.days - 1),
+      dayStartTime: pattern.grid.dayStartTime,
+      dayEndTime: pattern.grid.dayEndTime,
+      slotMinutes: pattern.grid.slotMinutes,
+    },
+  };
+}
+
+// The first day after fromDate on the weekday the pattern started on, so weekday shapes line up
+export function suggestPatternStart(pattern: EventPattern, fromDate: string): string {
+  const tomorrow = addDays(fromDate, 1);
+  return pattern.startWeekday !== null ? nextDateOnWeekday(pattern.startWeekday, tomorrow) : tomorrow;
+}
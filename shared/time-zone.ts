@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { addDays, calculateEndDate, isAllDay, type Duration } from "./duration";
+import { getOptionDate, weekdayOf } from "./weekday";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA zone name such as "America/New_York"
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown time zone");
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function getSupportedTimeZones(): string[] {
+  return Intl.supportedValuesOf?.("timeZone") ?? ["UTC"];
+}
+
+// Wall-clock date and time in a zone
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+export function getOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getParts(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const { year, month, day, hour, minute } = getParts(instant, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+// The instant a wall-clock time in a zone refers to. Like Temporal's "compatible" mode, repeated
+// times resolve to the first occurrence and times skipped by a DST jump move forward by the gap.
+export function fromZonedDateTime(value: ZonedDateTime, timeZone: string): Date {
+  const [year, month, day] = value.date.split("-").map(Number);
+  const [hours, minutes] = value.time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const firstGuess = new Date(wallClock - getOffset(new Date(wallClock), timeZone));
+  const adjusted = new Date(wallClock - getOffset(firstGuess, timeZone));
+  const roundTrip = toZonedDateTime(adjusted, timeZone);
+  return roundTrip.date === value.date && roundTrip.time === value.time ? adjusted : firstGuess;
+}
+
+export function convertZonedDateTime(value: ZonedDateTime, fromZone: string, toZone: string): ZonedDateTime {
+  if (fromZone === toZone) return value;
+  return toZonedDateTime(fromZonedDateTime(value, fromZone), toZone);
+}
+
+// A time option's start and end as seen from the given zone. For weekday options the
+// dates are those of the next occurrence, and weekday may differ from the original.
+export interface ZonedTimeOption {
+  date: string;
+  weekday: number;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+}
+
+// All-day options are calendar dates and read the same everywhere
+export function convertTimeOption(
+  option: { date: string | null; weekday?: number | null; startTime: string; endTime: string },
+  duration: Duration,
+  fromZone: string,
+  toZone: string,
+): ZonedTimeOption {
+  const date = getOptionDate({ date: option.date, weekday: option.weekday ?? null });
+  const endDate = calculateEndDate(date, option.startTime, duration);
+  if (isAllDay(duration) || fromZone === toZone) {
+    return { date, weekday: weekdayOf(date), startTime: option.startTime, endDate, endTime: option.endTime };
+  }
+
+  const start = convertZonedDateTime({ date, time: option.startTime }, fromZone, toZone);
+  const end = convertZonedDateTime({ date: endDate, time: option.endTime }, fromZone, toZone);
+  return { date: start.date, weekday: weekdayOf(start.date), startTime: start.time, endDate: end.date, endTime: end.time };
+}
+
+// The instants an option starts and ends at. All-day options cover whole days in the event's zone,
+// ending at midnight after their last day. Timed options last exactly their duration, which differs
+// from the stored wall-clock end time when a DST change falls in between.
+export function getOptionInstants(
+  option: { date: string | null; weekday?: number | null; startTime: string; endTime: string },
+  duration: Duration,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const date = getOptionDate({ date: option.date, weekday: option.weekday ?? null });
+  if (isAllDay(duration)) {
+    return {
+      start: fromZonedDateTime({ date, time: "00:00" }, timeZone),
+      end: fromZonedDateTime({ date: addDays(date, duration.value), time: "00:00" }, timeZone),
+    };
+  }
+  const start = fromZonedDateTime({ date, time: option.startTime }, timeZone);
+  return { start, end: new Date(start.getTime() + duration.value * 60_000) };
+}
+
+// A change in a zone's UTC offset; `at` is the first instant with the new offset
+export interface OffsetTransition {
+  at: Date;
+  offsetBefore: number;
+  offsetAfter: number;
+}
+
+// Every offset change between two instants, found a week at a time and narrowed down to the minute.
+// Zones change at most once in a week, so checking weekly doesn't miss any.
+export function getOffsetTransitions(timeZone: string, from: Date, to: Date): OffsetTransition[] {
+  const minute = 60_000;
+  const week = 7 * 24 * 60 * minute;
+  const end = Math.floor(to.getTime() / minute) * minute;
+  const transitions: OffsetTransition[] = [];
+
+  let checked = Math.floor(from.getTime() / minute) * minute;
+  let checkedOffset = getOffset(new Date(checked), timeZone);
+  while (checked < end) {
+    const next = Math.min(checked + week, end);
+    const nextOffset = getOffset(new Date(next), timeZone);
+    if (nextOffset !== checkedOffset) {
+      let before = checked;
+      let after = next;
+      while (after - before > minute) {
+        const middle = before + Math.floor((after - before) / (2 * minute)) * minute;
+        if (getOffset(new Date(middle), timeZone) === checkedOffset) {
+          before = middle;
+        } else {
+          after = middle;
+        }
+      }
+      transitions.push({ at: new Date(after), offsetBefore: checkedOffset, offsetAfter: nextOffset });
+    }
+    checked = next;
+    checkedOffset = nextOffset;
+  }
+  return transitions;
+}
+
+// Short label such as "EST" or "GMT+2" for the zone on a given date
+export function formatTimeZoneAbbreviation(timeZone: string, date: string): string {
+  const instant = fromZonedDateTime({ date, time: "12:00" }, timeZone);
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(instant)
+    .find(part => part.type === "timeZoneName");
+  return name?.value ?? timeZone;
+}
+
+// e.g. "America/New_York" -> "New York"
+export function formatTimeZoneName(timeZone: string): string {
+  const city = timeZone.split("/").pop() ?? timeZone;
+  return city.replace(/_/g, " ");
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { addDays } from "./duration";
+
+// Indexed like Date.getDay(): 0 is Sunday
+export const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const weekdaySchema = z.number().int().min(0, "Unknown weekday").max(6, "Unknown weekday");
+
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// First YYYY-MM-DD on or after fromDate that falls on the weekday
+export function nextDateOnWeekday(weekday: number, fromDate: string): string {
+  return addDays(fromDate, (weekday - weekdayOf(fromDate) + 7) % 7);
+}
+
+export function todayDate(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Weekday options have no date of their own; their next occurrence stands in
+// wherever a concrete date is needed, such as time zone conversion
+export function getOptionDate(option: { date: string | null; weekday: number | null }): string {
+  return option.date ?? nextDateOnWeekday(option.weekday ?? 0, todayDate());
+}
+
+// Repeats a confirmed weekday option every `interval` weeks from startDate
+export const recurrenceSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  interval: z.number().int().min(1, "The interval must be at least 1 week").max(4, "The interval can be at most 4 weeks"),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+}).refine(
+  recurrence => !recurrence.until || recurrence.until >= recurrence.startDate,
+  { path: ["until"], message: "The schedule must end on or after its first date" },
+);
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+// e.g. "Every other Tuesday from Nov 3, 2026 until Dec 15, 2026"
+export function formatRecurrence(recurrence: Recurrence): string {
+  const format = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  };
+
+  const weekday = weekdayNames[weekdayOf(recurrence.startDate)];
+  const every = recurrence.interval === 1
+    ? `Every ${weekday}`
+    : recurrence.interval === 2 ? `Every other ${weekday}` : `Every ${recurrence.interval} weeks on ${weekday}`;
+  const until = recurrence.until ? ` until ${format(recurrence.until)}` : "";
+  return `${every} from ${format(recurrence.startDate)}${until}`;
+}